@@ -0,0 +1,178 @@
+/**
+ * Whole-book loader for DAISY v3 filesets
+ * Follows the OPF manifest and spine to parse and link NCX, SMIL and DTBook
+ */
+
+import { parseDtb } from '@/lib/dtb';
+import { InvalidValueError, UnresolvedReferenceError } from '@/lib/errors';
+import { findPageTarget, parseNcx } from '@/lib/ncx';
+import { parseOpf } from '@/lib/opf';
+import { parseSmil } from '@/lib/smil';
+import type {
+  DaisyBook,
+  DaisyBookNavLink,
+  DaisyBookPageLink,
+  DaisyBookSmilTarget,
+  DaisyBookSpineEntry,
+  ManifestItem,
+  NcxData,
+  ResourceReader,
+  SmilData,
+} from '@/lib/types';
+import {
+  DAISY_MEDIA_TYPES,
+  isSmilMediaType,
+  resolveHref,
+  splitSrc,
+} from '@/lib/utils';
+
+/**
+ * Resolve an NCX content src to the SMIL element it targets
+ */
+function resolveSmilTarget(
+  src: string,
+  ncxPath: string,
+  spine: DaisyBookSpineEntry[],
+): DaisyBookSmilTarget | undefined {
+  const { file, fragment } = splitSrc(src);
+  const path = resolveHref(ncxPath, file);
+  const entry = spine.find((spineEntry) => spineEntry.path === path);
+
+  if (!entry) return undefined;
+
+  return {
+    smilHref: entry.item.href,
+    fragment,
+    clip: entry.smil.elements[`${entry.item.href}#${fragment}`],
+  };
+}
+
+/**
+ * Link every NCX navigation point to the SMIL element it targets
+ * @param ncxPath Path of the navigation file that the sources are relative to
+ */
+export function linkNavPoints(
+  ncx: NcxData,
+  ncxPath: string,
+  spine: DaisyBookSpineEntry[],
+): DaisyBookNavLink[] {
+  const links: DaisyBookNavLink[] = [];
+
+  ncx.navPoints.forEach((navPoint) => {
+    const target = resolveSmilTarget(navPoint.src, ncxPath, spine);
+
+    if (target) {
+      links.push({ navPoint, ...target });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Parse the SMIL files of the spine items, keeping the spine order
+ * @param opfPath Path of the package file that the item hrefs are relative to
+ * @returns The spine entries and the parsed SMIL files keyed by item href
+ */
+export async function loadSpine(
+  reader: ResourceReader,
+  opfPath: string,
+  items: ManifestItem[],
+): Promise<Pick<DaisyBook, 'spine' | 'smil'>> {
+  const spine = await Promise.all(
+    items.map(async (item): Promise<DaisyBookSpineEntry> => {
+      const path = resolveHref(opfPath, item.href);
+      const smil = parseSmil(await reader.read(path), item.href);
+
+      return { item, path, smil };
+    }),
+  );
+
+  const smil: Record<string, SmilData> = {};
+  spine.forEach((entry) => {
+    smil[entry.item.href] = entry.smil;
+  });
+
+  return { spine, smil };
+}
+
+/**
+ * Load a complete DAISY v3 book from a resource reader
+ * Parses the OPF, then the NCX, every spine SMIL file and the DTBook it lists
+ * @param reader Source of the fileset (see createMemoryReader, createFsReader, createZipReader)
+ * @param opfPath Path of the OPF file within the fileset
+ */
+export async function loadDaisyBook(
+  reader: ResourceReader,
+  opfPath: string,
+): Promise<DaisyBook> {
+  const opf = parseOpf(await reader.read(opfPath), { fileName: opfPath });
+  const manifestById = new Map(opf.manifest.map((item) => [item.id, item]));
+
+  const spineItems = opf.spine.map(({ idref }) => {
+    const item = manifestById.get(idref);
+
+    if (!item) {
+      throw new UnresolvedReferenceError(
+        `Invalid OPF file: spine itemref "${idref}" has no manifest item`,
+        { fileName: opfPath },
+      );
+    }
+
+    if (!isSmilMediaType(item.mediaType)) {
+      throw new InvalidValueError(
+        `Invalid OPF file: spine item "${idref}" is not a SMIL file (${item.mediaType})`,
+        { fileName: opfPath },
+      );
+    }
+
+    return item;
+  });
+
+  const book: DaisyBook = {
+    opfPath,
+    opf,
+    ...(await loadSpine(reader, opfPath, spineItems)),
+    navLinks: [],
+  };
+
+  const ncxItem = opf.manifest.find(
+    (item) => item.mediaType === DAISY_MEDIA_TYPES.ncx,
+  );
+  if (ncxItem) {
+    book.ncxPath = resolveHref(opfPath, ncxItem.href);
+    book.ncx = parseNcx(await reader.read(book.ncxPath), {
+      fileName: book.ncxPath,
+    });
+    book.navLinks = linkNavPoints(book.ncx, book.ncxPath, book.spine);
+  }
+
+  const dtbItem = opf.manifest.find(
+    (item) => item.mediaType === DAISY_MEDIA_TYPES.dtbook,
+  );
+  if (dtbItem) {
+    const dtbPath = resolveHref(opfPath, dtbItem.href);
+    book.dtb = parseDtb(await reader.read(dtbPath), { fileName: dtbPath });
+  }
+
+  return book;
+}
+
+/**
+ * Jump from a print page to its SMIL/audio position
+ * @param page Page number or label from the NCX pageList, e.g. 123 or "xii"
+ */
+export function getPagePosition(
+  book: DaisyBook,
+  page: string | number,
+): DaisyBookPageLink | undefined {
+  if (!book.ncx || book.ncxPath === undefined) return undefined;
+
+  const pageTarget = findPageTarget(book.ncx, page);
+  if (!pageTarget) return undefined;
+
+  const target = resolveSmilTarget(pageTarget.src, book.ncxPath, book.spine);
+  if (!target) return undefined;
+
+  return { pageTarget, ...target };
+}
@@ -0,0 +1,440 @@
+/**
+ * Parsers for DAISY 2.02 filesets (ncc.html, master.smil and SMIL 1.0)
+ * Produce the same shapes as the DAISY v3 parsers
+ */
+
+import { select, selectAll } from 'unist-util-select';
+import { SKIP, visit } from 'unist-util-visit';
+import type { Element, Root } from 'xast';
+import { MissingRootError } from '@/lib/errors';
+import { getSmilPars, parseSmilTree } from '@/lib/smil';
+import type {
+  AudioClip,
+  BaseMetadata,
+  Daisy202Fileset,
+  MasterSmilData,
+  NavList,
+  NavPoint,
+  NavTreeNode,
+  NccData,
+  PageTarget,
+  ResourceReader,
+  SmilAudioNode,
+  SmilData,
+  SmilTimeNode,
+} from '@/lib/types';
+import {
+  extractMetadata,
+  formatTime,
+  getDocumentElement,
+  getTextContent,
+  parseTime,
+  parseXml,
+  resolveHref,
+  splitSrc,
+} from '@/lib/utils';
+
+/**
+ * DAISY 2.02 meta names (lowercase) mapped to their DAISY 3 keys
+ */
+const DAISY202_METADATA_MAPPING: Record<string, string> = {
+  'dc:title': 'title',
+  'dc:creator': 'creator',
+  'dc:identifier': 'identifier',
+  'dc:subject': 'subject',
+  'dc:description': 'description',
+  'dc:publisher': 'publisher',
+  'dc:date': 'date',
+  'dc:language': 'language',
+  'dc:source': 'source',
+  'dc:format': 'format',
+  'ncc:totaltime': 'dtb:totalTime',
+  'ncc:narrator': 'dtb:narrator',
+  'ncc:producer': 'dtb:producer',
+  'ncc:produceddate': 'dtb:producedDate',
+  'ncc:revision': 'dtb:revision',
+  'ncc:sourcedate': 'dtb:sourceDate',
+  'ncc:sourcepublisher': 'dtb:sourcePublisher',
+  'ncc:multimediatype': 'dtb:multimediaType',
+  'ncc:depth': 'dtb:depth',
+  'ncc:maxpagenormal': 'dtb:maxPageNumber',
+  'ncc:generator': 'dtb:generator',
+  'ncc:totalelapsedtime': 'dtb:totalElapsedTime',
+};
+
+/**
+ * DAISY 2.02 ncc:multimediaType values mapped to DAISY 3 dtb:multimediaType
+ */
+const MULTIMEDIA_TYPE_MAPPING: Record<string, string> = {
+  audioncc: 'audioNCX',
+  textncc: 'textNCX',
+  audioonly: 'audioOnly',
+  audioparttext: 'audioPartText',
+  audiofulltext: 'audioFullText',
+  textpartaudio: 'textPartAudio',
+};
+
+/**
+ * NCC span/div classes mapped to the navList class used in DAISY 3
+ */
+const NAV_LIST_CLASSES: Record<string, string> = {
+  sidebar: 'sidebar',
+  'optional-prodnote': 'prodnote',
+  noteref: 'note',
+  group: 'group',
+};
+
+/**
+ * Map DAISY 2.02 meta names to their DAISY 3 keys
+ * Unknown names are kept as they are
+ */
+function mapDaisy202Metadata(metadata: BaseMetadata): BaseMetadata {
+  const mapped: BaseMetadata = {};
+
+  Object.entries(metadata).forEach(([name, value]) => {
+    const key = DAISY202_METADATA_MAPPING[name.toLowerCase()] || name;
+    mapped[key] =
+      key === 'dtb:multimediaType' && value
+        ? MULTIMEDIA_TYPE_MAPPING[value.toLowerCase()] || value
+        : value;
+  });
+
+  if (mapped.identifier) {
+    mapped['dtb:uid'] = mapped.identifier;
+  }
+
+  const pageCount = ['ncc:pageNormal', 'ncc:pageFront', 'ncc:pageSpecial']
+    .map((name) =>
+      Object.entries(metadata).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase(),
+      ),
+    )
+    .reduce((total, entry) => total + (parseInt(entry?.[1] || '', 10) || 0), 0);
+  if (pageCount > 0) {
+    mapped['dtb:totalPageCount'] = String(pageCount);
+  }
+
+  return mapped;
+}
+
+/**
+ * Get the first link of an NCC heading or span
+ */
+function getLink(element: Element): { label: string; src: string } {
+  const anchor = select('element[name=a]', element) as Element | undefined;
+
+  return {
+    label: getTextContent(anchor || element).trim(),
+    src: anchor?.attributes.href || '',
+  };
+}
+
+/**
+ * Build a navMap tree from navigation points carrying heading levels
+ */
+function buildNavTree(navPoints: NavPoint[]): NavTreeNode[] {
+  const roots: NavTreeNode[] = [];
+  const stack: NavTreeNode[] = [];
+
+  navPoints.forEach((navPoint) => {
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1]!.level >= navPoint.level
+    ) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    const node: NavTreeNode = { ...navPoint, children: [] };
+    navPoint.parentId = parent?.id;
+    node.parentId = parent?.id;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  });
+
+  return roots;
+}
+
+/**
+ * Parse a DAISY 2.02 ncc.html file into the NcxData shape
+ * Headings h1-h6 become navigation points, page spans become page targets and
+ * sidebar, prodnote, noteref and group spans become navLists
+ */
+export function parseNcc(nccContent: string): NccData {
+  const tree = parseXml(nccContent);
+  const htmlElement = select('element[name=html]', tree);
+
+  if (!htmlElement) {
+    throw new MissingRootError('Invalid NCC file: no html element found', {
+      node: getDocumentElement(tree),
+    });
+  }
+
+  const metaElements = selectAll('element[name=meta]', tree) as Element[];
+  const metadata = mapDaisy202Metadata(extractMetadata(metaElements));
+
+  const titleElement = select('element[name=title]', tree) as
+    | Element
+    | undefined;
+
+  const navPoints: NavPoint[] = [];
+  const pageTargets: PageTarget[] = [];
+  const navListsByClass = new Map<string, NavList>();
+  let playOrder = 0;
+
+  const bodyElement = select('element[name=body]', tree) as Element | undefined;
+
+  if (bodyElement) {
+    visit(bodyElement, 'element', (element: Element) => {
+      const className = element.attributes.class || '';
+      const headingMatch = element.name.match(/^h([1-6])$/);
+
+      if (headingMatch) {
+        playOrder += 1;
+        navPoints.push({
+          id: element.attributes.id || '',
+          level: parseInt(headingMatch[1]!, 10),
+          ...getLink(element),
+          playOrder,
+        });
+        return SKIP;
+      }
+
+      const pageMatch = className.match(/^page-(normal|front|special)$/);
+      if (pageMatch) {
+        playOrder += 1;
+        const { label, src } = getLink(element);
+        const type = pageMatch[1] as PageTarget['type'];
+
+        pageTargets.push({
+          id: element.attributes.id || '',
+          type,
+          value: type === 'normal' ? label : undefined,
+          label,
+          src,
+          playOrder,
+          class: `page${type.charAt(0).toUpperCase()}${type.slice(1)}`,
+        });
+        return SKIP;
+      }
+
+      const listClass = NAV_LIST_CLASSES[className];
+      if (listClass && (element.name === 'span' || element.name === 'div')) {
+        playOrder += 1;
+        let navList = navListsByClass.get(listClass);
+        if (!navList) {
+          navList = { class: listClass, label: listClass, navTargets: [] };
+          navListsByClass.set(listClass, navList);
+        }
+
+        navList.navTargets.push({
+          id: element.attributes.id || '',
+          ...getLink(element),
+          playOrder,
+          class: listClass,
+        });
+        return SKIP;
+      }
+
+      return undefined;
+    });
+  }
+
+  const navTree = buildNavTree(navPoints);
+
+  return {
+    metadata,
+    navPoints,
+    navTree,
+    pageTargets,
+    navLists: [...navListsByClass.values()],
+    docTitle: metadata.title || (titleElement && getTextContent(titleElement)),
+    warnings: [],
+  };
+}
+
+/**
+ * Parse a DAISY 2.02 master.smil file into its ordered SMIL references
+ */
+export function parseMasterSmil(masterSmilContent: string): MasterSmilData {
+  const tree = parseXml(masterSmilContent);
+  const smilElement = select('element[name=smil]', tree);
+
+  if (!smilElement) {
+    throw new MissingRootError(
+      'Invalid master SMIL file: no smil element found',
+      { node: getDocumentElement(tree) },
+    );
+  }
+
+  const metaElements = selectAll('element[name=meta]', tree) as Element[];
+  const refElements = selectAll(
+    'element[name=body] element[name=ref]',
+    tree,
+  ) as Element[];
+
+  return {
+    metadata: mapDaisy202Metadata(extractMetadata(metaElements)),
+    refs: refElements.map((ref) => ({
+      src: ref.attributes.src || '',
+      title: ref.attributes.title || undefined,
+      id: ref.attributes.id || undefined,
+    })),
+  };
+}
+
+/**
+ * Collect the audio nodes inside a timeline node, in order
+ */
+function collectAudio(node: SmilTimeNode): SmilAudioNode[] {
+  if (node.type === 'audio') return [node];
+  if (node.type === 'seq' || node.type === 'par') {
+    return node.children.flatMap(collectAudio);
+  }
+  return [];
+}
+
+/**
+ * Normalize SMIL 1.0 audio attributes in-place
+ * clip-begin="npt=12.3s" becomes clipBegin="00:00:12.300"
+ */
+function normalizeSmil10Audio(tree: Root) {
+  visit(tree, { type: 'element', name: 'audio' }, (element) => {
+    if (element.type !== 'element') return;
+
+    (['clip-begin', 'clip-end'] as const).forEach((name) => {
+      const value = element.attributes[name];
+      if (value === undefined || value === null) return;
+
+      const key = name === 'clip-begin' ? 'clipBegin' : 'clipEnd';
+      element.attributes[key] = formatTime(parseTime(value));
+      delete element.attributes[name];
+    });
+  });
+}
+
+/**
+ * Parse a DAISY 2.02 SMIL 1.0 file into the SmilData shape
+ * Audio clips are normalized to DAISY 3 clock values; a par with several
+ * consecutive clips of one audio file is keyed as a single clip, both by
+ * the par id and by its text id (NCC links usually point to the text)
+ */
+export function parseDaisy202Smil(
+  smilContent: string,
+  smilFileName: string,
+): SmilData {
+  const tree = parseXml(smilContent);
+  normalizeSmil10Audio(tree);
+
+  const smil = parseSmilTree(tree, smilFileName);
+  const elements: Record<string, AudioClip> = {};
+
+  getSmilPars(smil.timeline).forEach((par) => {
+    const audios = collectAudio(par);
+    const first = audios[0];
+    const last = audios[audios.length - 1];
+
+    if (
+      !first?.clipBegin ||
+      !last?.clipEnd ||
+      audios.some((audio) => audio.src !== first.src)
+    ) {
+      return;
+    }
+
+    const clip: AudioClip = {
+      src: first.src,
+      clipBegin: first.clipBegin,
+      clipEnd: last.clipEnd,
+      duration: audios.reduce(
+        (total, audio) => total + (audio.duration ?? 0),
+        0,
+      ),
+    };
+    const text = par.children.find((child) => child.type === 'text');
+
+    [par.id, text?.id].forEach((id) => {
+      if (id) {
+        elements[`${smilFileName}#${id}`] = clip;
+      }
+    });
+  });
+
+  return {
+    ...smil,
+    metadata: mapDaisy202Metadata(smil.metadata),
+    elements,
+  };
+}
+
+/**
+ * Load a DAISY 2.02 fileset from a resource reader
+ * SMIL files are taken from master.smil when present, otherwise from the
+ * order in which the NCC links to them; content documents are the XHTML
+ * files referenced by SMIL text elements
+ * @param reader Source of the fileset
+ * @param nccPath Path of ncc.html within the fileset
+ */
+export async function loadDaisy202Fileset(
+  reader: ResourceReader,
+  nccPath: string,
+): Promise<Daisy202Fileset> {
+  const ncc = parseNcc(await reader.read(nccPath));
+  const masterPath = resolveHref(nccPath, 'master.smil');
+
+  let smilHrefs: string[];
+  if (await reader.exists(masterPath)) {
+    const master = parseMasterSmil(await reader.read(masterPath));
+    smilHrefs = master.refs.map((ref) => splitSrc(ref.src).file);
+  } else {
+    smilHrefs = [
+      ...ncc.navPoints,
+      ...ncc.pageTargets,
+      ...ncc.navLists.flatMap((navList) => navList.navTargets),
+    ]
+      .sort((a, b) => a.playOrder - b.playOrder)
+      .map((target) => splitSrc(target.src).file);
+  }
+
+  const smil = await Promise.all(
+    [...new Set(smilHrefs)].filter(Boolean).map(async (href) => ({
+      href,
+      smil: parseDaisy202Smil(
+        await reader.read(resolveHref(nccPath, href)),
+        href,
+      ),
+    })),
+  );
+
+  const nccHref = nccPath.slice(nccPath.lastIndexOf('/') + 1);
+  const contentHrefs = new Set<string>();
+  smil.forEach((entry) => {
+    getSmilPars(entry.smil.timeline).forEach((par) => {
+      par.children.forEach((child) => {
+        if (child.type !== 'text') return;
+
+        const href = resolveHref(entry.href, child.src);
+        if (href && href !== nccHref) {
+          contentHrefs.add(href);
+        }
+      });
+    });
+  });
+
+  const contentDocuments: Record<string, Root> = {};
+  await Promise.all(
+    [...contentHrefs].map(async (href) => {
+      const path = resolveHref(nccPath, href);
+      if (await reader.exists(path)) {
+        contentDocuments[href] = parseXml(await reader.read(path));
+      }
+    }),
+  );
+
+  return { ncc, smil, contentDocuments };
+}
@@ -6,41 +6,190 @@
 import { select, selectAll } from 'unist-util-select';
 import { SKIP, type Test, visit } from 'unist-util-visit';
 import type { Element, Root } from 'xast';
+import { MissingElementError, MissingRootError } from '@/lib/errors';
+import { createParseContext } from '@/lib/parse-context';
 import type {
   DaisyTreeSplitResult,
   DtbData,
+  DtbMatter,
   DtbMetadata,
+  DtbSection,
   Page,
+  ParseOptions,
 } from '@/lib/types';
-import { extractMetadata, parseXml } from '@/lib/utils';
+import {
+  extractMetadata,
+  getDocumentElement,
+  getTextContent,
+  parseXml,
+} from '@/lib/utils';
+
 /**
- * Parse XML string into xast Root node (for DTB/OPF context)
+ * Build the outline of a DTBook: doctitle, docauthors and nested levels
+ * Page ranges follow the pagenum elements in document order
+ */
+function parseDtbOutline(
+  tree: Root,
+): Pick<DtbData, 'docTitle' | 'docAuthors' | 'sections'> {
+  const docAuthors: string[] = [];
+  const sections: DtbSection[] = [];
+  const textOf = (element: Element) =>
+    getTextContent(element).replace(/\s+/g, ' ').trim();
+  let docTitle: string | undefined;
+  let page: string | undefined;
+  // Sections entered but without text content yet: a pagenum there starts them
+  const untouched = new Set<DtbSection>();
+
+  const walk = (
+    element: Element,
+    matter: DtbMatter | undefined,
+    parent: DtbSection | undefined,
+  ) => {
+    element.children.forEach((child) => {
+      if (child.type === 'text') {
+        if (child.value.trim()) untouched.clear();
+        return;
+      }
+      if (child.type !== 'element') return;
+
+      const { name } = child;
+      const levelMatch = name.match(/^level([1-6])?$/);
+
+      if (
+        name === 'frontmatter' ||
+        name === 'bodymatter' ||
+        name === 'rearmatter'
+      ) {
+        walk(child, name, undefined);
+      } else if (name === 'doctitle') {
+        docTitle ??= textOf(child);
+        untouched.clear();
+      } else if (name === 'docauthor') {
+        docAuthors.push(textOf(child));
+        untouched.clear();
+      } else if (name === 'pagenum') {
+        page = textOf(child);
+        untouched.forEach((section) => {
+          section.pageStart = page;
+        });
+        untouched.clear();
+      } else if (levelMatch && matter) {
+        const heading = child.children.find(
+          (node): node is Element =>
+            node.type === 'element' && /^(h[1-6]|hd)$/.test(node.name),
+        );
+        const section: DtbSection = {
+          id: child.attributes.id || undefined,
+          level: levelMatch[1]
+            ? parseInt(levelMatch[1], 10)
+            : (parent?.level ?? 0) + 1,
+          matter,
+          heading: heading ? textOf(heading) : undefined,
+          headingId: heading?.attributes.id || undefined,
+          pageStart: page,
+          children: [],
+        };
+
+        (parent?.children ?? sections).push(section);
+        untouched.add(section);
+        walk(child, matter, section);
+        section.pageEnd = page;
+      } else {
+        walk(child, matter, parent);
+      }
+    });
+  };
+
+  tree.children.forEach((child) => {
+    if (child.type === 'element') walk(child, undefined, undefined);
+  });
+
+  return { docTitle, docAuthors, sections };
+}
+
+/**
+ * Extract metadata and outline from an already parsed DTBook tree
+ * A missing dtbook element, head, dtb:uid or dc:Title is recovered from and
+ * listed in `warnings`, or thrown with `{ strict: true }`; other missing
+ * Dublin Core metadata are optional and default to ""
+ * @throws Any DaisyError in strict mode
  */
-export function parseDtb(xmlContent: string): DtbData {
-  const tree = parseXml(xmlContent);
+export function parseDtbTree(tree: Root, options?: ParseOptions): DtbData {
+  const context = createParseContext(options);
+  const dtbookElement = select('element[name=dtbook]', tree) as
+    | Element
+    | undefined;
+  const headElement = select('element[name=head]', tree) as Element | undefined;
+
+  if (!dtbookElement) {
+    context.reject(
+      MissingRootError,
+      'Invalid DTB file: no dtbook element found',
+      'parsed as a DTBook',
+      getDocumentElement(tree),
+    );
+  } else if (!headElement) {
+    context.reject(
+      MissingElementError,
+      'Invalid DTB file: no head element found',
+      'empty metadata',
+      dtbookElement,
+    );
+  }
 
   // Extract metadata from head
   const metaElements = selectAll('element[name=meta]', tree) as Element[];
-  const metadata = extractMetadata(metaElements);
+  // Names are matched case-insensitively: dc:Title and dc:title are the same
+  const metadata = Object.fromEntries(
+    Object.entries(extractMetadata(metaElements)).map(([name, value]) => [
+      name.toLowerCase(),
+      value,
+    ]),
+  );
+
+  // dtb:uid and dc:Title are the metadata required by the DTBook DTD
+  if (dtbookElement && headElement) {
+    ['dtb:uid', 'dc:title'].forEach((name) => {
+      if (metadata[name] === undefined) {
+        context.reject(
+          MissingElementError,
+          `Invalid DTB file: no ${name} meta found`,
+          name === 'dc:title' ? 'title ""' : 'no uid',
+          headElement,
+        );
+      }
+    });
+  }
 
   const dtbMetadata = {
-    creator: metadata['dc:Creator'] || '',
-    title: metadata['dc:Title'] || '',
-    publisher: metadata['dc:Publisher'] || '',
-    date: metadata['dc:Date'] || '',
-    identifier: metadata['dc:Identifier'] || '',
-    description: metadata['dc:Description'] || '',
-    format: metadata['dc:Format'] || '',
-    language: metadata['dc:Language'] || '',
-    source: metadata['dc:Source'] || '',
-    subject: metadata['dc:Subject'] || '',
+    creator: metadata['dc:creator'] ?? '',
+    title: metadata['dc:title'] ?? '',
+    publisher: metadata['dc:publisher'] ?? '',
+    date: metadata['dc:date'] ?? '',
+    identifier: metadata['dc:identifier'] ?? '',
+    description: metadata['dc:description'] ?? '',
+    format: metadata['dc:format'] ?? '',
+    language: metadata['dc:language'] ?? '',
+    source: metadata['dc:source'] ?? '',
+    subject: metadata['dc:subject'] ?? '',
   } satisfies DtbMetadata;
 
   return {
     metadata: dtbMetadata,
     tree,
+    ...parseDtbOutline(tree),
+    warnings: context.warnings,
   };
 }
+
+/**
+ * Parse XML string into xast Root node (for DTB/OPF context)
+ * @see parseDtbTree for the strict and lenient modes
+ * @throws XmlSyntaxError, and any DaisyError in strict mode
+ */
+export function parseDtb(xmlContent: string, options?: ParseOptions): DtbData {
+  return parseDtbTree(parseXml(xmlContent, options?.fileName), options);
+}
 /**
  * Update <meta> and <dc:*> elements in a DTB/OPF tree (in-place)
  */
@@ -54,22 +203,34 @@ export function updateDtbMetadataFromTree(
   const headElement = select('element[name=head]', tree) as Element;
 
   if (!headElement) {
-    throw new Error('Invalid DTB file: no head element found');
+    throw new MissingElementError('Invalid DTB file: no head element found', {
+      node: getDocumentElement(tree),
+    });
   }
 
   const metaElements = selectAll('element[name=meta]', tree) as Element[];
   const updatedKeys = new Set<string>();
 
+  // dc:* names are matched case-insensitively (dc:Title and dc:title)
+  const findKey = (name: string) =>
+    newValue[name] !== undefined
+      ? name
+      : Object.keys(newValue).find(
+          (key) =>
+            /^dc:/i.test(key) && key.toLowerCase() === name.toLowerCase(),
+        );
+
   // Update <meta name="dc:Title"> style elements
   metaElements.forEach((el: Element) => {
     const name = el.attributes?.name;
+    const key = name ? findKey(name) : undefined;
 
-    if (name && newValue[name] !== undefined) {
+    if (key) {
       el.attributes = {
         ...el.attributes,
-        content: String(newValue[name]),
+        content: String(newValue[key]),
       };
-      updatedKeys.add(name);
+      updatedKeys.add(key);
     }
   });
 
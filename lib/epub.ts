@@ -0,0 +1,1352 @@
+/**
+ * EPUB 3 export and import for DAISY v3 books
+ * Maps the OPF, NCX, DTBook and SMIL files to an EPUB 3 publication with
+ * Media Overlays, and EPUB 3 publications back to the DAISY v3 structures
+ */
+
+import { select, selectAll } from 'unist-util-select';
+import type { Element, ElementContent, Root } from 'xast';
+import { linkNavPoints, loadSpine } from '@/lib/book';
+import {
+  MissingAttributeError,
+  MissingElementError,
+  MissingRootError,
+  UnresolvedReferenceError,
+} from '@/lib/errors';
+import { parseDcElement } from '@/lib/opf';
+import { createParseContext } from '@/lib/parse-context';
+import { getSmilPars } from '@/lib/smil';
+import type {
+  ConversionResult,
+  DaisyBook,
+  DaisyBookSpineEntry,
+  DcMetadataEntry,
+  NavList,
+  NavPoint,
+  NavTreeNode,
+  NcxData,
+  OpfData,
+  OpfMetadata,
+  PageTarget,
+  ParseOptions,
+  ResourceReader,
+  SmilAudioNode,
+  SmilTimeNode,
+} from '@/lib/types';
+import {
+  DAISY_MEDIA_TYPES,
+  createDocument,
+  createElement,
+  formatTime,
+  getDocumentElement,
+  getDublinCoreName,
+  getNamespaceScopes,
+  getTextContent,
+  inferMediaType,
+  isOpfElement,
+  parseXml,
+  resolveHref,
+  splitSrc,
+  toXml,
+} from '@/lib/utils';
+
+/**
+ * Namespace URIs used by EPUB 3 documents
+ */
+const EPUB_NAMESPACES = {
+  opf: 'http://www.idpf.org/2007/opf',
+  ops: 'http://www.idpf.org/2007/ops',
+  xhtml: 'http://www.w3.org/1999/xhtml',
+  smil: 'http://www.w3.org/ns/SMIL',
+  container: 'urn:oasis:names:tc:opendocument:xmlns:container',
+  dc: 'http://purl.org/dc/elements/1.1/',
+};
+
+/** Directory of the package document inside the EPUB container */
+const EPUB_DIRECTORY = 'EPUB';
+const PACKAGE_HREF = 'package.opf';
+const NAV_HREF = 'nav.xhtml';
+
+/**
+ * OpfMetadata keys written as Dublin Core elements of the package document
+ */
+const DC_KEYS = [
+  'title',
+  'language',
+  'creator',
+  'publisher',
+  'date',
+  'subject',
+  'description',
+  'source',
+];
+
+/**
+ * DTBook matter elements mapped to their EPUB structural semantics
+ */
+const MATTER_TYPES: Record<string, string> = {
+  frontmatter: 'frontmatter',
+  bodymatter: 'bodymatter',
+  rearmatter: 'backmatter',
+};
+
+/**
+ * DTBook elements kept under the same name in XHTML
+ */
+const XHTML_ELEMENTS = new Set([
+  'p',
+  'em',
+  'strong',
+  'span',
+  'div',
+  'a',
+  'img',
+  'br',
+  'table',
+  'caption',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'td',
+  'th',
+  'col',
+  'colgroup',
+  'blockquote',
+  'sub',
+  'sup',
+  'dl',
+  'dt',
+  'dd',
+  'li',
+  'abbr',
+  'acronym',
+  'q',
+  'cite',
+  'code',
+  'kbd',
+  'samp',
+  'dfn',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+]);
+
+/**
+ * DTBook elements rendered as paragraphs carrying the DTBook name as class
+ */
+const PARAGRAPH_ELEMENTS = new Set([
+  'docauthor',
+  'author',
+  'byline',
+  'dateline',
+  'covertitle',
+  'bridgehead',
+  'address',
+  'line',
+]);
+
+/**
+ * DTBook attributes copied to XHTML
+ */
+const XHTML_ATTRIBUTES = [
+  'id',
+  'href',
+  'alt',
+  'width',
+  'height',
+  'colspan',
+  'rowspan',
+  'title',
+  'dir',
+];
+
+/**
+ * XHTML content document produced from a slice of the DTBook
+ */
+interface ContentDocument {
+  href: string;
+  matter: string;
+  children: ElementContent[];
+}
+
+/**
+ * Par of a Media Overlay
+ */
+interface OverlayPar {
+  id?: string;
+  textId: string;
+  audio?: SmilAudioNode;
+}
+
+/**
+ * Convert a DTBook node to XHTML
+ * @param depth Nesting depth of the enclosing level, used for hd headings
+ * @param resolveSrc Maps an image src relative to the DTBook to the EPUB path
+ */
+function convertDtbookNode(
+  node: ElementContent,
+  depth: number,
+  parentName: string,
+  resolveSrc: (src: string) => string,
+): ElementContent[] {
+  if (node.type === 'text') return [node];
+  if (node.type !== 'element') return [];
+
+  const levelMatch = node.name.match(/^level([1-6])?$/);
+  const childDepth = levelMatch
+    ? parseInt(levelMatch[1] || String(depth + 1), 10)
+    : depth;
+  const children = node.children.flatMap((child) =>
+    convertDtbookNode(child, childDepth, node.name, resolveSrc),
+  );
+
+  const attributes: Record<string, string | undefined> = {};
+  XHTML_ATTRIBUTES.forEach((attribute) => {
+    attributes[attribute] = node.attributes[attribute] ?? undefined;
+  });
+  const lang = node.attributes['xml:lang'];
+  if (lang) {
+    attributes['xml:lang'] = lang;
+    attributes.lang = lang;
+  }
+  if (node.attributes.src) {
+    attributes.src = resolveSrc(node.attributes.src);
+  }
+
+  const classes = node.attributes.class ? [node.attributes.class] : [];
+  const element = (
+    name: string,
+    extra: Record<string, string | undefined> = {},
+    extraClass = '',
+    content: ElementContent[] = children,
+  ) =>
+    createElement(
+      name,
+      {
+        ...attributes,
+        class: [extraClass, ...classes].filter(Boolean).join(' ') || undefined,
+        ...extra,
+      },
+      content,
+    );
+
+  if (levelMatch) {
+    return [element('section')];
+  }
+
+  if (XHTML_ELEMENTS.has(node.name)) {
+    return [
+      node.name === 'caption' && parentName === 'imggroup'
+        ? element('figcaption')
+        : element(node.name),
+    ];
+  }
+
+  if (PARAGRAPH_ELEMENTS.has(node.name)) {
+    return [element('p', {}, node.name)];
+  }
+
+  switch (node.name) {
+    case 'hd':
+      return [element(`h${Math.min(Math.max(depth, 1), 6)}`)];
+    case 'doctitle':
+      return [element('h1', { 'epub:type': 'fulltitle' }, 'doctitle')];
+    case 'pagenum': {
+      const label = getTextContent(node).trim();
+
+      return [
+        element(
+          'span',
+          {
+            'epub:type': 'pagebreak',
+            role: 'doc-pagebreak',
+            title: label,
+            'aria-label': label,
+          },
+          '',
+          [],
+        ),
+      ];
+    }
+    case 'list':
+      return [element(node.attributes.type === 'ol' ? 'ol' : 'ul')];
+    case 'lic':
+    case 'sent':
+    case 'w':
+    case 'linenum':
+      return [element('span', {}, node.name)];
+    case 'noteref':
+    case 'annoref': {
+      const idref = node.attributes.idref || '';
+
+      return [
+        element(
+          'a',
+          {
+            href: idref.startsWith('#') ? idref : `#${idref}`,
+            'epub:type': node.name,
+            role: node.name === 'noteref' ? 'doc-noteref' : undefined,
+          },
+          node.name,
+        ),
+      ];
+    }
+    case 'note':
+      return [
+        element(
+          'aside',
+          { 'epub:type': 'footnote', role: 'doc-footnote' },
+          'note',
+        ),
+      ];
+    case 'annotation':
+      return [element('aside', { 'epub:type': 'annotation' }, 'annotation')];
+    case 'sidebar':
+      return [element('aside', { 'epub:type': 'sidebar' }, 'sidebar')];
+    case 'prodnote':
+      return [element('aside', {}, 'prodnote')];
+    case 'imggroup':
+      return [element('figure', {}, 'imggroup')];
+    case 'linegroup':
+    case 'poem':
+    case 'epigraph':
+      return [element('div', {}, node.name)];
+    default:
+      return [element('span', {}, node.name)];
+  }
+}
+
+/**
+ * Collect the ids of the elements of a content document
+ */
+function collectIds(nodes: ElementContent[], ids: Set<string>) {
+  nodes.forEach((node) => {
+    if (node.type !== 'element') return;
+
+    if (node.attributes.id) ids.add(node.attributes.id);
+    collectIds(node.children, ids);
+  });
+}
+
+/**
+ * Point in-document links to the content document holding their target
+ */
+function retargetLinks(
+  nodes: ElementContent[],
+  href: string,
+  documentById: Map<string, string>,
+) {
+  nodes.forEach((node) => {
+    if (node.type !== 'element') return;
+
+    const link = node.attributes.href;
+    if (node.name === 'a' && link?.startsWith('#')) {
+      const target = documentById.get(link.slice(1));
+      if (target && target !== href) {
+        node.attributes.href = `${target}${link}`;
+      }
+    }
+
+    retargetLinks(node.children, href, documentById);
+  });
+}
+
+/**
+ * Find the first heading (h1-h6) of converted content
+ */
+function findHeading(nodes: ElementContent[]): Element | undefined {
+  let found: Element | undefined;
+
+  nodes.some((node) => {
+    if (node.type !== 'element') return false;
+
+    found = /^h[1-6]$/.test(node.name) ? node : findHeading(node.children);
+    return found !== undefined;
+  });
+
+  return found;
+}
+
+/**
+ * Collect the audio clips of a par, including those in nested seqs
+ */
+function collectAudio(node: SmilTimeNode): SmilAudioNode[] {
+  if (node.type === 'audio') return [node];
+  if (node.type === 'par' || node.type === 'seq') {
+    return node.children.flatMap(collectAudio);
+  }
+
+  return [];
+}
+
+/**
+ * Format a Date as an EPUB dcterms:modified value (CCYY-MM-DDThh:mm:ssZ)
+ */
+function formatModified(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Export a DAISY v3 book as an EPUB 3 publication with Media Overlays
+ * The DTBook is split into one XHTML content document per top-level section,
+ * each with a Media Overlay built from the SMIL pars that point into it.
+ * Audio and image files keep their paths relative to the OPF and must be
+ * copied under "EPUB/" by the caller.
+ * @param book Book loaded with loadDaisyBook; it must include a DTBook
+ * @param options.modified Value of dcterms:modified (defaults to now)
+ * @returns Serialized files keyed by path in the container ("mimetype" first,
+ * stored uncompressed when zipping) and warnings for anything that could not be mapped
+ * @throws MissingElementError when the book has no DTBook or the DTBook has no content
+ */
+export function exportEpub3(
+  book: DaisyBook,
+  options?: { modified?: Date },
+): ConversionResult {
+  const { opf, ncx, dtb } = book;
+  const warnings: string[] = [];
+  const dtbItem = opf.manifest.find(
+    (item) => item.mediaType === DAISY_MEDIA_TYPES.dtbook,
+  );
+
+  if (!dtb || !dtbItem) {
+    throw new MissingElementError(
+      'Cannot export to EPUB 3: the book has no DTBook content',
+      { fileName: book.opfPath },
+    );
+  }
+
+  const metadata = { ...opf.metadata };
+  if (!metadata.language) {
+    metadata.language = dtb.metadata.language || 'en';
+    warnings.push(
+      `No dc:Language in the OPF; using "${metadata.language}" for the EPUB`,
+    );
+  }
+
+  // Resources other than the DAISY files, keyed by path relative to the OPF
+  const resources = new Map<string, string>();
+  const addResource = (href: string) => {
+    const item = opf.manifest.find(
+      (manifestItem) => manifestItem.href === href,
+    );
+    const mediaType = item?.mediaType || inferMediaType(href);
+
+    resources.set(
+      href,
+      mediaType === 'audio/mpeg4-generic' ? 'audio/mp4' : mediaType,
+    );
+  };
+
+  // Content documents: one per top-level level of each matter
+  const documents: ContentDocument[] = [];
+  const resolveSrc = (src: string) => {
+    const href = resolveHref(dtbItem.href, src);
+    addResource(href);
+    return href;
+  };
+  const bookElement = select('element[name=book]', dtb.tree) as
+    | Element
+    | undefined;
+
+  bookElement?.children.forEach((matter) => {
+    if (matter.type !== 'element' || !MATTER_TYPES[matter.name]) return;
+
+    let loose: ContentDocument | undefined;
+    matter.children.forEach((child) => {
+      if (child.type !== 'element') return;
+
+      const converted = convertDtbookNode(child, 0, matter.name, resolveSrc);
+      if (/^level1?$/.test(child.name)) {
+        loose = undefined;
+        documents.push({
+          href: `content-${documents.length + 1}.xhtml`,
+          matter: MATTER_TYPES[matter.name]!,
+          children: converted,
+        });
+      } else {
+        if (!loose) {
+          loose = {
+            href: `content-${documents.length + 1}.xhtml`,
+            matter: MATTER_TYPES[matter.name]!,
+            children: [],
+          };
+          documents.push(loose);
+        }
+        loose.children.push(...converted);
+      }
+    });
+  });
+
+  if (documents.length === 0) {
+    throw new MissingElementError(
+      'Cannot export to EPUB 3: the DTBook has no content',
+      {
+        fileName: resolveHref(book.opfPath, dtbItem.href),
+        node: bookElement ?? getDocumentElement(dtb.tree),
+      },
+    );
+  }
+
+  const documentById = new Map<string, string>();
+  documents.forEach((document) => {
+    const ids = new Set<string>();
+    collectIds(document.children, ids);
+    ids.forEach((id) => documentById.set(id, document.href));
+  });
+  documents.forEach((document) => {
+    retargetLinks(document.children, document.href, documentById);
+  });
+
+  // Media Overlays: SMIL pars grouped by the content document they point to
+  const overlays = new Map<string, OverlayPar[]>();
+  const targetsBySmilId = new Map<string, string>();
+
+  // Par ids of different SMIL files may clash once merged into one overlay
+  const overlayIds = new Set<string>();
+  const getOverlayId = (smilHref: string, id: string | undefined) => {
+    if (!id) return undefined;
+
+    const prefix = smilHref
+      .replace(/^.*\//, '')
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^\w.-]/g, '-');
+    let overlayId = overlayIds.has(id) ? `${prefix}-${id}` : id;
+    for (let count = 2; overlayIds.has(overlayId); count += 1) {
+      overlayId = `${prefix}-${id}-${count}`;
+    }
+    overlayIds.add(overlayId);
+
+    return overlayId;
+  };
+
+  book.spine.forEach(({ item, smil }) => {
+    getSmilPars(smil.timeline).forEach((par) => {
+      const text = par.children.find((child) => child.type === 'text');
+      if (!text) {
+        if (par.id) {
+          warnings.push(
+            `SMIL par "${item.href}#${par.id}" has no text and was left out of the Media Overlays`,
+          );
+        }
+        return;
+      }
+
+      const { file, fragment } = splitSrc(text.src);
+      const documentHref = documentById.get(fragment);
+      if (resolveHref(item.href, file) !== dtbItem.href || !documentHref) {
+        warnings.push(
+          `SMIL text "${text.src}" in ${item.href} does not point to a DTBook element`,
+        );
+        return;
+      }
+
+      const target = `${documentHref}#${fragment}`;
+      [par.id, text.id].forEach((id) => {
+        if (id) targetsBySmilId.set(`${item.href}#${id}`, target);
+      });
+
+      const pars = overlays.get(documentHref) || [];
+      const audio = collectAudio(par);
+      if (audio.length === 0) {
+        pars.push({ id: getOverlayId(item.href, par.id), textId: fragment });
+      }
+      audio.forEach((clip, index) => {
+        addResource(resolveHref(item.href, clip.src));
+        pars.push({
+          id: getOverlayId(
+            item.href,
+            par.id && index > 0 ? `${par.id}-${index + 1}` : par.id,
+          ),
+          textId: fragment,
+          audio: { ...clip, src: resolveHref(item.href, clip.src) },
+        });
+      });
+      overlays.set(documentHref, pars);
+    });
+  });
+
+  const files: Record<string, string> = {
+    mimetype: 'application/epub+zip',
+    'META-INF/container.xml': toXml(
+      createDocument(
+        createElement(
+          'container',
+          { version: '1.0', xmlns: EPUB_NAMESPACES.container },
+          [
+            createElement('rootfiles', {}, [
+              createElement('rootfile', {
+                'full-path': `${EPUB_DIRECTORY}/${PACKAGE_HREF}`,
+                'media-type': 'application/oebps-package+xml',
+              }),
+            ]),
+          ],
+        ),
+      ),
+    ),
+  };
+  const title = metadata.title || dtb.metadata.title || '';
+  const xhtmlDocument = (
+    documentTitle: string,
+    body: Element,
+    extraHead: Element[] = [],
+  ) =>
+    toXml(
+      createDocument(
+        createElement(
+          'html',
+          {
+            xmlns: EPUB_NAMESPACES.xhtml,
+            'xmlns:epub': EPUB_NAMESPACES.ops,
+            'xml:lang': metadata.language,
+            lang: metadata.language,
+          },
+          [
+            createElement('head', {}, [
+              createElement('meta', { charset: 'UTF-8' }),
+              createElement('title', {}, [
+                { type: 'text', value: documentTitle },
+              ]),
+              ...extraHead,
+            ]),
+            body,
+          ],
+        ),
+        { name: 'html' },
+      ),
+    );
+
+  documents.forEach((document) => {
+    files[`${EPUB_DIRECTORY}/${document.href}`] = xhtmlDocument(
+      title,
+      createElement(
+        'body',
+        { 'epub:type': document.matter },
+        document.children,
+      ),
+    );
+  });
+
+  // Overlay SMIL files and their durations
+  const durations = new Map<string, number>();
+  documents.forEach((document, index) => {
+    const pars = overlays.get(document.href);
+    if (!pars) return;
+
+    const overlayHref = `content-${index + 1}.smil`;
+    let duration = 0;
+    const parElements = pars.map(({ id, textId, audio }) => {
+      duration += audio?.duration ?? 0;
+
+      return createElement('par', { id }, [
+        createElement('text', { src: `${document.href}#${textId}` }),
+        ...(audio
+          ? [
+              createElement('audio', {
+                src: audio.src,
+                clipBegin: audio.clipBegin,
+                clipEnd: audio.clipEnd,
+              }),
+            ]
+          : []),
+      ]);
+    });
+
+    durations.set(document.href, duration);
+    files[`${EPUB_DIRECTORY}/${overlayHref}`] = toXml(
+      createDocument(
+        createElement(
+          'smil',
+          {
+            xmlns: EPUB_NAMESPACES.smil,
+            'xmlns:epub': EPUB_NAMESPACES.ops,
+            version: '3.0',
+          },
+          [
+            createElement('body', {}, [
+              createElement(
+                'seq',
+                { id: `seq-${index + 1}`, 'epub:textref': document.href },
+                parElements,
+              ),
+            ]),
+          ],
+        ),
+      ),
+    );
+  });
+
+  // Navigation document from the NCX
+  const resolveNcxSrc = (src: string): string | undefined => {
+    if (!book.ncxPath) return undefined;
+
+    const { file, fragment } = splitSrc(src);
+    const path = resolveHref(book.ncxPath, file);
+    const entry = book.spine.find((spineEntry) => spineEntry.path === path);
+
+    return entry && targetsBySmilId.get(`${entry.item.href}#${fragment}`);
+  };
+  const link = (href: string, label: string) =>
+    createElement('a', { href }, [{ type: 'text', value: label || '' }]);
+
+  const convertNavNode = (node: NavTreeNode): Element[] => {
+    const href = resolveNcxSrc(node.src);
+    const children = node.children.flatMap(convertNavNode);
+    const nested =
+      children.length > 0 ? [createElement('ol', {}, children)] : [];
+
+    if (href) {
+      return [createElement('li', {}, [link(href, node.label), ...nested])];
+    }
+
+    warnings.push(
+      `NCX navPoint "${node.id}" does not resolve to DTBook content`,
+    );
+    return children.length > 0
+      ? [
+          createElement('li', {}, [
+            createElement('span', {}, [{ type: 'text', value: node.label }]),
+            ...nested,
+          ]),
+        ]
+      : [];
+  };
+
+  // EPUB 3 forbids an empty toc: list the content documents instead
+  const tocItems = ncx?.navTree.flatMap(convertNavNode) ?? [];
+  if (tocItems.length === 0) {
+    warnings.push(
+      ncx
+        ? 'No NCX navPoint resolves to DTBook content; the table of contents lists the content documents'
+        : 'The book has no NCX; the table of contents lists the content documents',
+    );
+    documents.forEach((document, index) => {
+      const heading = findHeading(document.children);
+      const href = heading?.attributes.id
+        ? `${document.href}#${heading.attributes.id}`
+        : document.href;
+      const label = heading && getTextContent(heading).trim();
+
+      tocItems.push(
+        createElement('li', {}, [link(href, label || `Section ${index + 1}`)]),
+      );
+    });
+  }
+
+  const navSections: Element[] = [
+    createElement('nav', { 'epub:type': 'toc', id: 'toc', role: 'doc-toc' }, [
+      createElement('h1', {}, [{ type: 'text', value: title }]),
+      createElement('ol', {}, tocItems),
+    ]),
+  ];
+
+  if (ncx && ncx.pageTargets.length > 0) {
+    const pageItems = ncx.pageTargets.flatMap((pageTarget) => {
+      const href = resolveNcxSrc(pageTarget.src);
+      if (!href) {
+        warnings.push(
+          `NCX pageTarget "${pageTarget.id}" does not resolve to DTBook content`,
+        );
+        return [];
+      }
+
+      return [createElement('li', {}, [link(href, pageTarget.label)])];
+    });
+
+    navSections.push(
+      createElement(
+        'nav',
+        { 'epub:type': 'page-list', id: 'page-list', hidden: 'hidden' },
+        [createElement('ol', {}, pageItems)],
+      ),
+    );
+  }
+
+  const bodymatter = documents.find(
+    (document) => document.matter === 'bodymatter',
+  );
+  navSections.push(
+    createElement(
+      'nav',
+      { 'epub:type': 'landmarks', id: 'landmarks', hidden: 'hidden' },
+      [
+        createElement('ol', {}, [
+          createElement('li', {}, [
+            createElement(
+              'a',
+              { 'epub:type': 'toc', href: `${NAV_HREF}#toc` },
+              [{ type: 'text', value: 'Table of Contents' }],
+            ),
+          ]),
+          ...(bodymatter
+            ? [
+                createElement('li', {}, [
+                  createElement(
+                    'a',
+                    { 'epub:type': 'bodymatter', href: bodymatter.href },
+                    [{ type: 'text', value: 'Start of Content' }],
+                  ),
+                ]),
+              ]
+            : []),
+        ]),
+      ],
+    ),
+  );
+
+  files[`${EPUB_DIRECTORY}/${NAV_HREF}`] = xhtmlDocument(
+    title,
+    createElement('body', {}, navSections),
+  );
+
+  // Package document
+  const uid = metadata.identifier || '';
+  const metadataChildren: Element[] = [
+    createElement('dc:identifier', { id: 'uid' }, [
+      { type: 'text', value: uid },
+    ]),
+  ];
+  DC_KEYS.forEach((key) => {
+    const value = metadata[key];
+    if (value) {
+      metadataChildren.push(
+        createElement(`dc:${key}`, {}, [{ type: 'text', value }]),
+      );
+    }
+  });
+  metadataChildren.push(
+    createElement('meta', { property: 'dcterms:modified' }, [
+      {
+        type: 'text',
+        value: formatModified(options?.modified ?? new Date()),
+      },
+    ]),
+  );
+
+  let totalDuration = 0;
+  documents.forEach((document, index) => {
+    const duration = durations.get(document.href);
+    if (duration === undefined) return;
+
+    totalDuration += duration;
+    metadataChildren.push(
+      createElement(
+        'meta',
+        { property: 'media:duration', refines: `#overlay-${index + 1}` },
+        [{ type: 'text', value: formatTime(duration) }],
+      ),
+    );
+  });
+  if (durations.size > 0) {
+    metadataChildren.push(
+      createElement('meta', { property: 'media:duration' }, [
+        { type: 'text', value: formatTime(totalDuration) },
+      ]),
+      createElement('meta', { property: 'media:active-class' }, [
+        { type: 'text', value: '-epub-media-overlay-active' },
+      ]),
+    );
+  }
+  if (metadata['dtb:narrator']) {
+    metadataChildren.push(
+      createElement('meta', { property: 'media:narrator' }, [
+        { type: 'text', value: metadata['dtb:narrator'] },
+      ]),
+    );
+  }
+
+  const manifestItems: Element[] = [
+    createElement('item', {
+      id: 'nav',
+      href: NAV_HREF,
+      'media-type': 'application/xhtml+xml',
+      properties: 'nav',
+    }),
+  ];
+  documents.forEach((document, index) => {
+    const hasOverlay = durations.has(document.href);
+
+    manifestItems.push(
+      createElement('item', {
+        id: `content-${index + 1}`,
+        href: document.href,
+        'media-type': 'application/xhtml+xml',
+        'media-overlay': hasOverlay ? `overlay-${index + 1}` : undefined,
+      }),
+    );
+    if (hasOverlay) {
+      manifestItems.push(
+        createElement('item', {
+          id: `overlay-${index + 1}`,
+          href: `content-${index + 1}.smil`,
+          'media-type': 'application/smil+xml',
+        }),
+      );
+    }
+  });
+  [...resources].forEach(([href, mediaType], index) => {
+    manifestItems.push(
+      createElement('item', {
+        id: `resource-${index + 1}`,
+        href,
+        'media-type': mediaType,
+      }),
+    );
+  });
+
+  files[`${EPUB_DIRECTORY}/${PACKAGE_HREF}`] = toXml(
+    createDocument(
+      createElement(
+        'package',
+        {
+          xmlns: EPUB_NAMESPACES.opf,
+          version: '3.0',
+          'unique-identifier': 'uid',
+          'xml:lang': metadata.language,
+        },
+        [
+          createElement(
+            'metadata',
+            { 'xmlns:dc': EPUB_NAMESPACES.dc },
+            metadataChildren,
+          ),
+          createElement('manifest', {}, manifestItems),
+          createElement(
+            'spine',
+            {},
+            documents.map((_, index) =>
+              createElement('itemref', { idref: `content-${index + 1}` }),
+            ),
+          ),
+        ],
+      ),
+    ),
+  );
+
+  return { files, warnings };
+}
+
+/**
+ * EPUB package metadata properties mapped to their DAISY 3 keys
+ */
+const EPUB_PROPERTY_MAPPING: Record<string, string> = {
+  'media:duration': 'dtb:totalTime',
+  'media:narrator': 'dtb:narrator',
+};
+
+/**
+ * Get the EPUB structural semantics of an element as a list
+ */
+function getEpubTypes(element: Element): string[] {
+  return (element.attributes['epub:type'] || '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Get the direct child elements of an element with a given name
+ */
+function getChildElements(element: Element, name: string): Element[] {
+  return element.children.filter(
+    (child): child is Element =>
+      child.type === 'element' && child.name === name,
+  );
+}
+
+/**
+ * Express a fileset path relative to the directory of another file
+ */
+function relativeHref(fromPath: string, toPath: string): string {
+  const from = fromPath.split('/').slice(0, -1);
+  const to = toPath.split('/');
+  let common = 0;
+
+  while (
+    common < from.length &&
+    common < to.length - 1 &&
+    from[common] === to[common]
+  ) {
+    common += 1;
+  }
+
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
+
+/**
+ * Read an already parsed EPUB 3 package document into OpfData
+ * Dublin Core elements map to the flat OpfMetadata keys (the unique
+ * identifier wins for `identifier`), refinement-free meta properties are kept
+ * under their property name and media:duration/media:narrator also fill
+ * dtb:totalTime/dtb:narrator. The spine lists the Media Overlays of the
+ * spine items, in reading order, so it plays like a DAISY 3 spine; spine
+ * items without a Media Overlay are listed in `warnings`.
+ * @throws MissingRootError
+ */
+export function parseEpubPackageTree(
+  tree: Root,
+  options?: ParseOptions,
+): OpfData {
+  const context = createParseContext(options);
+  const scopes = getNamespaceScopes(tree);
+  const elements = selectAll('element', tree) as Element[];
+  const findPackageElement = (name: string) =>
+    elements.find((element) => isOpfElement(element, scopes, name));
+  const getChildren = (parent: Element | undefined, name?: string) =>
+    (parent?.children ?? []).filter(
+      (child): child is Element =>
+        child.type === 'element' &&
+        (!name || isOpfElement(child, scopes, name)),
+    );
+  const packageElement = findPackageElement('package');
+
+  if (!packageElement) {
+    throw new MissingRootError(
+      'Invalid EPUB package document: no package element found',
+      { fileName: context.fileName, node: getDocumentElement(tree) },
+    );
+  }
+
+  const uniqueIdentifier = packageElement.attributes['unique-identifier'];
+  const metadata: OpfMetadata = {};
+  const metadataElements = getChildren(findPackageElement('metadata'));
+
+  const dcMetadata: Record<string, DcMetadataEntry[]> = {};
+  const dcById = new Map<string, DcMetadataEntry>();
+
+  metadataElements.forEach((element) => {
+    const value = getTextContent(element).trim();
+    const key = getDublinCoreName(element, scopes);
+
+    if (key) {
+      const entry = parseDcElement(element);
+
+      (dcMetadata[key] ??= []).push(entry);
+      if (entry.id) dcById.set(entry.id, entry);
+
+      if (
+        metadata[key] === undefined ||
+        (key === 'identifier' && element.attributes.id === uniqueIdentifier)
+      ) {
+        metadata[key] = value;
+      }
+    } else if (
+      isOpfElement(element, scopes, 'meta') &&
+      element.attributes.property &&
+      !element.attributes.refines
+    ) {
+      const { property } = element.attributes;
+      metadata[property] = value;
+
+      const mapped = EPUB_PROPERTY_MAPPING[property];
+      if (mapped) metadata[mapped] = value;
+    }
+  });
+
+  // EPUB 3 refines Dublin Core elements with meta elements
+  metadataElements.forEach((element) => {
+    const { refines, property } = element.attributes;
+    const entry = dcById.get((refines || '').replace(/^#/, ''));
+    if (!isOpfElement(element, scopes, 'meta') || !entry || !property) return;
+
+    const value = getTextContent(element).trim();
+    if (property === 'role') entry.role = value;
+    if (property === 'file-as') entry.fileAs = value;
+    if (property === 'identifier-type') entry.scheme = value;
+  });
+
+  const itemElements = getChildren(findPackageElement('manifest'), 'item');
+  const manifest = itemElements.map((item) => ({
+    id: item.attributes.id || '',
+    href: item.attributes.href || '',
+    mediaType: item.attributes['media-type'] || '',
+  }));
+  const overlayById = new Map(
+    itemElements.map((item) => [
+      item.attributes.id || '',
+      item.attributes['media-overlay'] || '',
+    ]),
+  );
+
+  const itemrefElements = getChildren(findPackageElement('spine'), 'itemref');
+  const spine = itemrefElements.flatMap((itemref) => {
+    const idref = itemref.attributes.idref || '';
+    const overlay = overlayById.get(idref);
+
+    if (!overlay) {
+      context.warn(
+        MissingAttributeError,
+        `EPUB spine item "${idref}" has no media overlay`,
+        'spine item left out of the spine',
+        itemref,
+      );
+      return [];
+    }
+
+    return [{ idref: overlay }];
+  });
+
+  return {
+    metadata,
+    dcMetadata,
+    uniqueIdentifier: uniqueIdentifier
+      ? dcById.get(uniqueIdentifier)
+      : undefined,
+    manifest,
+    spine,
+    warnings: context.warnings,
+  };
+}
+
+/**
+ * Parse an EPUB 3 package document into OpfData
+ * @see parseEpubPackageTree for the mapping to DAISY 3
+ * @throws XmlSyntaxError or MissingRootError
+ */
+export function parseEpubPackage(
+  packageContent: string,
+  options?: ParseOptions,
+): OpfData {
+  return parseEpubPackageTree(
+    parseXml(packageContent, options?.fileName),
+    options,
+  );
+}
+
+/**
+ * Parse an EPUB 3 navigation document into NcxData
+ * The toc nav becomes the navMap, page-list the pageList and landmarks a
+ * navList with class "landmarks" whose navTargets carry their epub:type as
+ * class. Sources are kept as written in the navigation document.
+ */
+export function parseEpubNav(navContent: string): NcxData {
+  const tree = parseXml(navContent);
+  const navElements = selectAll('element[name=nav]', tree) as Element[];
+  const findNav = (type: string) =>
+    navElements.find((nav) => getEpubTypes(nav).includes(type));
+  let playOrder = 0;
+
+  const parseItems = (
+    ol: Element | undefined,
+    level: number,
+    parentId?: string,
+  ): NavTreeNode[] =>
+    (ol ? getChildElements(ol, 'li') : []).map((li) => {
+      const anchor =
+        getChildElements(li, 'a')[0] || getChildElements(li, 'span')[0];
+      playOrder += 1;
+      const id =
+        li.attributes.id || anchor?.attributes.id || `nav-${playOrder}`;
+
+      return {
+        id,
+        level,
+        label: anchor ? getTextContent(anchor).trim() : '',
+        src: anchor?.attributes.href || '',
+        playOrder,
+        parentId,
+        children: parseItems(getChildElements(li, 'ol')[0], level + 1, id),
+      };
+    });
+
+  const tocNav = findNav('toc');
+  if (!tocNav) {
+    throw new MissingElementError(
+      'Invalid EPUB navigation document: no toc nav found',
+      { node: getDocumentElement(tree) },
+    );
+  }
+
+  const navTree = parseItems(getChildElements(tocNav, 'ol')[0], 1);
+  const flatten = (nodes: NavTreeNode[]): NavPoint[] =>
+    nodes.flatMap(({ children, ...navPoint }) => [
+      navPoint,
+      ...flatten(children),
+    ]);
+  const navPoints = flatten(navTree);
+
+  const pageList = findNav('page-list');
+  const pageTargets: PageTarget[] = parseItems(
+    pageList && getChildElements(pageList, 'ol')[0],
+    1,
+  ).map(({ id, label, src, playOrder: order }) => {
+    if (/^\d+$/.test(label)) {
+      return { id, type: 'normal', value: label, label, src, playOrder: order };
+    }
+
+    return {
+      id,
+      type: /^[ivxlcdm]+$/i.test(label) ? 'front' : 'special',
+      label,
+      src,
+      playOrder: order,
+    };
+  });
+
+  const navLists: NavList[] = [];
+  const landmarks = findNav('landmarks');
+  if (landmarks) {
+    const anchors = selectAll(
+      'element[name=li] > element[name=a]',
+      landmarks,
+    ) as Element[];
+    const heading = landmarks.children.find(
+      (child): child is Element =>
+        child.type === 'element' && /^h[1-6]$/.test(child.name),
+    );
+
+    navLists.push({
+      id: landmarks.attributes.id || undefined,
+      class: 'landmarks',
+      label: heading ? getTextContent(heading).trim() : 'Landmarks',
+      navTargets: anchors.map((anchor) => {
+        playOrder += 1;
+
+        return {
+          id: anchor.attributes.id || `landmark-${playOrder}`,
+          label: getTextContent(anchor).trim(),
+          src: anchor.attributes.href || '',
+          playOrder,
+          class: getEpubTypes(anchor).join(' ') || undefined,
+        };
+      }),
+    });
+  }
+
+  const title = select('element[name=title]', tree) as Element | undefined;
+
+  return {
+    metadata: {
+      'dtb:depth': String(
+        Math.max(0, ...navPoints.map((navPoint) => navPoint.level)),
+      ),
+      'dtb:totalPageCount': String(pageTargets.length),
+      'dtb:maxPageNumber': String(
+        Math.max(
+          0,
+          ...pageTargets.map((target) => parseInt(target.value || '', 10) || 0),
+        ),
+      ),
+    },
+    navPoints,
+    navTree,
+    pageTargets,
+    navLists,
+    docTitle: title ? getTextContent(title).trim() : undefined,
+    warnings: [],
+  };
+}
+
+/**
+ * Load an EPUB 3 publication with Media Overlays as a DaisyBook
+ * The Media Overlays take the place of the DAISY SMIL files and the
+ * navigation document that of the NCX: navigation sources that point to
+ * content with a Media Overlay are rewritten to the overlay par, so code
+ * written for DAISY 3 books (sync index, timeline, page jumps) works unchanged.
+ * Navigation entries whose content has no overlay keep their XHTML source.
+ * Spine items without an overlay are listed in `opf.warnings`.
+ * @param reader Source of the unzipped publication
+ */
+export async function loadEpub3(reader: ResourceReader): Promise<DaisyBook> {
+  const containerPath = 'META-INF/container.xml';
+  const container = parseXml(await reader.read(containerPath), containerPath);
+  const rootfile = select('element[name=rootfile]', container) as
+    | Element
+    | undefined;
+  const opfPath = rootfile?.attributes['full-path'];
+
+  if (!opfPath) {
+    throw new MissingElementError('Invalid EPUB container: no rootfile found', {
+      fileName: containerPath,
+      node: rootfile ?? getDocumentElement(container),
+    });
+  }
+
+  const packageTree = parseXml(await reader.read(opfPath), opfPath);
+  const opf = parseEpubPackageTree(packageTree, { fileName: opfPath });
+  const manifestById = new Map(opf.manifest.map((item) => [item.id, item]));
+
+  const overlayItems = opf.spine.map(({ idref }) => {
+    const item = manifestById.get(idref);
+
+    if (!item) {
+      throw new UnresolvedReferenceError(
+        `Invalid EPUB package document: media overlay "${idref}" has no manifest item`,
+        { fileName: opfPath },
+      );
+    }
+
+    return item;
+  });
+
+  const book: DaisyBook = {
+    opfPath,
+    opf,
+    ...(await loadSpine(reader, opfPath, overlayItems)),
+    navLinks: [],
+  };
+  const { spine } = book;
+
+  const packageScopes = getNamespaceScopes(packageTree);
+  const navItem = (selectAll('element', packageTree) as Element[]).find(
+    (item) =>
+      isOpfElement(item, packageScopes, 'item') &&
+      (item.attributes.properties || '').split(/\s+/).includes('nav'),
+  );
+
+  if (!navItem?.attributes.href) return book;
+
+  const ncxPath = resolveHref(opfPath, navItem.attributes.href);
+  const ncx = parseEpubNav(await reader.read(ncxPath));
+
+  // Content targets (path#id) mapped to the overlay par that plays them
+  const parsByTarget = new Map<
+    string,
+    { entry: DaisyBookSpineEntry; id: string }
+  >();
+  spine.forEach((entry) => {
+    getSmilPars(entry.smil.timeline).forEach((par) => {
+      const text = par.children.find((child) => child.type === 'text');
+      if (!text || !par.id) return;
+
+      const { fragment } = splitSrc(text.src);
+      const target = `${resolveHref(entry.path, text.src)}#${fragment}`;
+      if (!parsByTarget.has(target)) {
+        parsByTarget.set(target, { entry, id: par.id });
+      }
+    });
+  });
+
+  const remap = <T extends { src: string }>(target: T): T => {
+    const { fragment } = splitSrc(target.src);
+    const par = parsByTarget.get(
+      `${resolveHref(ncxPath, target.src)}#${fragment}`,
+    );
+
+    return par
+      ? { ...target, src: `${relativeHref(ncxPath, par.entry.path)}#${par.id}` }
+      : target;
+  };
+  const remapTree = (nodes: NavTreeNode[]): NavTreeNode[] =>
+    nodes.map((node) => ({
+      ...remap(node),
+      children: remapTree(node.children),
+    }));
+
+  book.ncxPath = ncxPath;
+  book.ncx = {
+    ...ncx,
+    metadata: { 'dtb:uid': opf.metadata.identifier, ...ncx.metadata },
+    navPoints: ncx.navPoints.map(remap),
+    navTree: remapTree(ncx.navTree),
+    pageTargets: ncx.pageTargets.map(remap),
+    navLists: ncx.navLists.map((navList) => ({
+      ...navList,
+      navTargets: navList.navTargets.map(remap),
+    })),
+  };
+
+  book.navLinks = linkNavPoints(book.ncx, ncxPath, spine);
+
+  return book;
+}
@@ -0,0 +1,66 @@
+/**
+ * Base class of the errors thrown by the parsers and editing functions
+ * Every error has a stable code and, when known, the file name and the
+ * line/column of the offending node
+ */
+
+import type { DaisyErrorCode, DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * Format the location of an error, e.g. "book.opf, line 3, column 5"
+ */
+function formatLocation(
+  fileName: string | undefined,
+  line: number | undefined,
+  column: number | undefined,
+): string {
+  return [
+    fileName,
+    line !== undefined ? `line ${line}` : undefined,
+    column !== undefined ? `column ${column}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Base class of all DAISY errors
+ * The message ends with the location, e.g. "(book.ncx, line 12, column 7)"
+ */
+export class DaisyError extends Error {
+  /** Stable code of the error kind */
+  readonly code: DaisyErrorCode;
+
+  /** Description of the error without the location */
+  readonly reason: string;
+
+  /** Name of the file being parsed */
+  readonly fileName?: string;
+
+  /** 1-indexed line of the offending node */
+  readonly line?: number;
+
+  /** 1-indexed column of the offending node */
+  readonly column?: number;
+
+  constructor(
+    code: DaisyErrorCode,
+    reason: string,
+    options: DaisyErrorOptions = {},
+  ) {
+    const start = options.node?.position?.start;
+    const line = options.line ?? start?.line;
+    const column = options.column ?? start?.column;
+    const location = formatLocation(options.fileName, line, column);
+
+    super(location ? `${reason} (${location})` : reason, {
+      cause: options.cause,
+    });
+    this.name = new.target.name;
+    this.code = code;
+    this.reason = reason;
+    this.fileName = options.fileName;
+    this.line = line;
+    this.column = column;
+  }
+}
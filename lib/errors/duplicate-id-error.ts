@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * An id is used twice
+ */
+export class DuplicateIdError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('duplicate-id', reason, options);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Error classes thrown by the parsers and editing functions
+ */
+
+export { DaisyError } from '@/lib/errors/daisy-error';
+export { DuplicateIdError } from '@/lib/errors/duplicate-id-error';
+export { InvalidValueError } from '@/lib/errors/invalid-value-error';
+export { MissingAttributeError } from '@/lib/errors/missing-attribute-error';
+export { MissingElementError } from '@/lib/errors/missing-element-error';
+export { MissingRootError } from '@/lib/errors/missing-root-error';
+export { UnresolvedReferenceError } from '@/lib/errors/unresolved-reference-error';
+export { XmlSyntaxError } from '@/lib/errors/xml-syntax-error';
@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * An attribute or text value does not match its syntax
+ */
+export class InvalidValueError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('invalid-value', reason, options);
+  }
+}
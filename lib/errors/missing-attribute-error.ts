@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * A required attribute is missing or empty
+ */
+export class MissingAttributeError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('missing-attribute', reason, options);
+  }
+}
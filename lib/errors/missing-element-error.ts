@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * A required element (head, manifest, spine, ...) is missing
+ */
+export class MissingElementError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('missing-element', reason, options);
+  }
+}
@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * The document element is not the one of the expected file type
+ */
+export class MissingRootError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('missing-root', reason, options);
+  }
+}
@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * An idref or href points to nothing
+ */
+export class UnresolvedReferenceError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('unresolved-reference', reason, options);
+  }
+}
@@ -0,0 +1,11 @@
+import { DaisyError } from '@/lib/errors/daisy-error';
+import type { DaisyErrorOptions } from '@/lib/types';
+
+/**
+ * The content is not well-formed XML
+ */
+export class XmlSyntaxError extends DaisyError {
+  constructor(reason: string, options?: DaisyErrorOptions) {
+    super('xml-syntax', reason, options);
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * DTBook to semantic HTML renderer
+ * Converts a DTBook xast tree to hast and serializes it, keeping element ids
+ * so SMIL text references still resolve
+ */
+
+import type {
+  Element as HastElement,
+  ElementContent as HastElementContent,
+  Root as HastRoot,
+  Properties,
+} from 'hast';
+import { toHtml } from 'hast-util-to-html';
+import { select } from 'unist-util-select';
+import type { Element, ElementContent, Root } from 'xast';
+import type { DtbookHtmlOptions } from '@/lib/types';
+import { getTextContent } from '@/lib/utils';
+
+/**
+ * DTBook elements kept under the same name in HTML
+ */
+const HTML_ELEMENTS = new Set([
+  'p',
+  'em',
+  'strong',
+  'span',
+  'div',
+  'a',
+  'br',
+  'table',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'td',
+  'th',
+  'col',
+  'colgroup',
+  'blockquote',
+  'sub',
+  'sup',
+  'dl',
+  'dt',
+  'dd',
+  'li',
+  'abbr',
+  'q',
+  'cite',
+  'code',
+  'kbd',
+  'samp',
+  'dfn',
+  'address',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+]);
+
+/**
+ * DTBook elements rendered as a paragraph classed with the DTBook name
+ */
+const PARAGRAPH_ELEMENTS = new Set([
+  'docauthor',
+  'author',
+  'byline',
+  'dateline',
+  'covertitle',
+  'bridgehead',
+]);
+
+/**
+ * DTBook elements rendered as a span classed with the DTBook name
+ */
+const SPAN_ELEMENTS = new Set(['sent', 'w', 'lic', 'linenum']);
+
+/**
+ * DTBook elements rendered as a div classed with the DTBook name
+ */
+const DIV_ELEMENTS = new Set([
+  'frontmatter',
+  'bodymatter',
+  'rearmatter',
+  'linegroup',
+  'poem',
+  'epigraph',
+]);
+
+/**
+ * Create a hast element, dropping undefined properties
+ */
+function h(
+  tagName: string,
+  properties: Properties,
+  children: HastElementContent[] = [],
+): HastElement {
+  const defined: Properties = {};
+
+  Object.entries(properties).forEach(([key, value]) => {
+    if (value !== undefined) defined[key] = value;
+  });
+
+  return { type: 'element', tagName, properties: defined, children };
+}
+
+/**
+ * Get the hast properties shared by every rendered DTBook element
+ */
+function getBaseProperties(element: Element, extraClass?: string): Properties {
+  const { id, dir, title } = element.attributes;
+  const className = [
+    ...(extraClass ? [extraClass] : []),
+    ...(element.attributes.class || '').split(/\s+/).filter(Boolean),
+  ];
+
+  return {
+    id: id || undefined,
+    className: className.length > 0 ? className : undefined,
+    lang: element.attributes['xml:lang'] || undefined,
+    dir: dir || undefined,
+    title: title || undefined,
+  };
+}
+
+/**
+ * Convert a DTBook node to hast
+ * @param depth Nesting depth of the enclosing level, used for hd headings
+ */
+function convertNode(
+  node: ElementContent,
+  depth: number,
+  parent: Element | undefined,
+  options: DtbookHtmlOptions,
+): HastElementContent[] {
+  if (node.type === 'text' || node.type === 'cdata') {
+    return [{ type: 'text', value: node.value }];
+  }
+  if (node.type !== 'element') return [];
+
+  const levelMatch = node.name.match(/^level([1-6])?$/);
+  const childDepth = levelMatch
+    ? parseInt(levelMatch[1] || String(depth + 1), 10)
+    : depth;
+  const children = node.children.flatMap((child) =>
+    convertNode(child, childDepth, node, options),
+  );
+  const base = getBaseProperties(node);
+  const classed = (extraClass: string) => getBaseProperties(node, extraClass);
+
+  if (levelMatch) {
+    const heading = node.children.find(
+      (child): child is Element =>
+        child.type === 'element' && /^(h[1-6]|hd)$/.test(child.name),
+    );
+
+    return [
+      h(
+        'section',
+        { ...base, ariaLabelledBy: heading?.attributes.id || undefined },
+        children,
+      ),
+    ];
+  }
+
+  if (HTML_ELEMENTS.has(node.name)) {
+    const { colspan, rowspan, href } = node.attributes;
+
+    return [
+      h(
+        node.name,
+        {
+          ...base,
+          href: href || undefined,
+          colSpan: colspan ? parseInt(colspan, 10) : undefined,
+          rowSpan: rowspan ? parseInt(rowspan, 10) : undefined,
+        },
+        children,
+      ),
+    ];
+  }
+
+  if (PARAGRAPH_ELEMENTS.has(node.name)) {
+    return [h('p', classed(node.name), children)];
+  }
+  if (SPAN_ELEMENTS.has(node.name)) {
+    return [h('span', classed(node.name), children)];
+  }
+  if (DIV_ELEMENTS.has(node.name)) {
+    return [h('div', classed(node.name), children)];
+  }
+
+  switch (node.name) {
+    case 'hd':
+      return [h(`h${Math.min(Math.max(depth, 1), 6)}`, base, children)];
+    case 'doctitle':
+      return [h('h1', classed('doctitle'), children)];
+    case 'pagenum': {
+      const label = getTextContent(node).trim();
+
+      return [
+        h(
+          'span',
+          {
+            ...classed('pagenum'),
+            role: 'doc-pagebreak',
+            ariaLabel: `Page ${label}`,
+            dataPage: node.attributes.page || undefined,
+          },
+          children,
+        ),
+      ];
+    }
+    case 'list': {
+      const { type } = node.attributes;
+
+      return [
+        h(
+          type === 'ol' ? 'ol' : 'ul',
+          type === 'pl' ? classed('plain') : base,
+          children,
+        ),
+      ];
+    }
+    case 'line':
+      return [
+        h(parent?.name === 'p' ? 'span' : 'div', classed('line'), children),
+      ];
+    case 'img': {
+      const { src, alt, width, height, longdesc } = node.attributes;
+
+      return [
+        h('img', {
+          ...base,
+          src: src ? (options.resolveImageSrc?.(src) ?? src) : undefined,
+          alt: alt ?? '',
+          width: width || undefined,
+          height: height || undefined,
+          ariaDescribedBy: longdesc?.replace(/^#/, '') || undefined,
+        }),
+      ];
+    }
+    case 'imggroup':
+      return [h('figure', classed('imggroup'), children)];
+    case 'caption':
+      return [
+        h(
+          parent?.name === 'imggroup' ? 'figcaption' : 'caption',
+          base,
+          children,
+        ),
+      ];
+    case 'noteref':
+    case 'annoref': {
+      const idref = (node.attributes.idref || '').replace(/^#/, '');
+
+      return [
+        h(
+          'a',
+          {
+            ...classed(node.name),
+            href: options.resolveNoteHref?.(idref) ?? `#${idref}`,
+            role: 'doc-noteref',
+          },
+          children,
+        ),
+      ];
+    }
+    case 'note':
+      return [
+        h(
+          'aside',
+          {
+            ...classed('note'),
+            role:
+              node.attributes.class === 'endnote' ||
+              node.attributes.class === 'rearnote'
+                ? 'doc-endnote'
+                : 'doc-footnote',
+          },
+          children,
+        ),
+      ];
+    case 'annotation':
+      return [h('aside', { ...classed('annotation'), role: 'note' }, children)];
+    case 'sidebar':
+      return [h('aside', classed('sidebar'), children)];
+    case 'prodnote':
+      return [
+        h(
+          parent?.name === 'imggroup' ? 'div' : 'aside',
+          { ...classed('prodnote'), role: 'note' },
+          children,
+        ),
+      ];
+    case 'acronym':
+      return [h('abbr', classed('acronym'), children)];
+    default:
+      return [h('span', classed(node.name), children)];
+  }
+}
+
+/**
+ * Convert a DTBook tree to a hast tree of semantic HTML
+ * Renders the content of the book element: levels become sections,
+ * pagenum a doc-pagebreak span, notes and noterefs doc-footnote/doc-noteref,
+ * imggroup a figure, sidebar and prodnote asides. Element ids are kept.
+ * @param tree DTBook tree, e.g. the `tree` returned by parseDtb
+ */
+export function dtbookToHast(
+  tree: Root,
+  options: DtbookHtmlOptions = {},
+): HastRoot {
+  const book = select('element[name=book]', tree) as Element | undefined;
+
+  return {
+    type: 'root',
+    children: (book?.children ?? []).flatMap((child) =>
+      convertNode(child, 0, book, options),
+    ),
+  };
+}
+
+/**
+ * Render a DTBook tree as an HTML fragment
+ * @see dtbookToHast for the element mapping
+ */
+export function dtbookToHtml(
+  tree: Root,
+  options: DtbookHtmlOptions = {},
+): string {
+  return toHtml(dtbookToHast(tree, options), {
+    characterReferences: { useNamedReferences: true },
+  });
+}
@@ -9,6 +9,19 @@ export * from '@/lib/opf';
 export * from '@/lib/ncx';
 export * from '@/lib/smil';
 export * from '@/lib/dtb';
+export * from '@/lib/book';
+export * from '@/lib/daisy202';
+export * from '@/lib/upgrade';
+export * from '@/lib/epub';
+export * from '@/lib/html';
+export * from '@/lib/text';
+export * from '@/lib/reader';
+export * from '@/lib/sync';
+export * from '@/lib/integrity';
+export * from '@/lib/timeline';
+export * from '@/lib/validate';
+export * from '@/lib/errors';
+export * from '@/lib/parse-context';
 
 // Utility functions
 export * from '@/lib/utils';
@@ -0,0 +1,142 @@
+/**
+ * Audio clip integrity checks for DAISY v3 books
+ * Audits the clip timing produced by parseSmil before publication
+ */
+
+import type {
+  AudioIntegrityReport,
+  AudioIssue,
+  DaisyBook,
+  SmilAudioNode,
+  SmilTimeNode,
+} from '@/lib/types';
+import { formatTime, parseTime, resolveHref } from '@/lib/utils';
+
+/**
+ * Last clip seen in an audio file, with its position in the file
+ */
+interface PreviousClip {
+  key?: string;
+  begin: number;
+  end: number;
+}
+
+/**
+ * Audit the audio clips of a book
+ * Reports zero-length clips, overlaps, gaps and out-of-order clips within
+ * each audio file, and checks dtb:totalElapsedTime and dtb:totalTime
+ * against the sum of the clip durations
+ * @param options.maxGap Largest silence allowed between consecutive clips, in milliseconds (default: 1000)
+ * @param options.tolerance Allowed difference for elapsed and total times, in milliseconds (default: 500)
+ */
+export function checkAudioIntegrity(
+  book: DaisyBook,
+  options?: { maxGap?: number; tolerance?: number },
+): AudioIntegrityReport {
+  const maxGap = options?.maxGap ?? 1000;
+  const tolerance = options?.tolerance ?? 500;
+  const issues: AudioIssue[] = [];
+  const previousByAudio = new Map<string, PreviousClip>();
+  let elapsed = 0;
+
+  const checkClip = (clip: SmilAudioNode, smilHref: string, parId?: string) => {
+    if (!clip.clipBegin || !clip.clipEnd) return;
+
+    const key = parId ? `${smilHref}#${parId}` : undefined;
+    const audioHref = resolveHref(smilHref, clip.src);
+    const begin = parseTime(clip.clipBegin);
+    const end = parseTime(clip.clipEnd);
+    const previous = previousByAudio.get(audioHref);
+    const previousName = previous?.key ? ` ${previous.key}` : '';
+    const report = (
+      severity: AudioIssue['severity'],
+      code: AudioIssue['code'],
+      message: string,
+    ) => {
+      issues.push({
+        severity,
+        code,
+        message,
+        smilHref,
+        clipKey: key,
+        audioHref,
+      });
+    };
+
+    if (end <= begin) {
+      report(
+        'error',
+        'empty-clip',
+        `clipEnd ${clip.clipEnd} is not after clipBegin ${clip.clipBegin}`,
+      );
+    }
+
+    if (previous) {
+      if (begin < previous.begin) {
+        report(
+          'warning',
+          'clip-out-of-order',
+          `Clip starts at ${clip.clipBegin}, before the previous clip${previousName} in the same audio file`,
+        );
+      } else if (begin < previous.end) {
+        report(
+          'error',
+          'clip-overlap',
+          `Clip starts at ${clip.clipBegin}, overlapping the previous clip${previousName} by ${previous.end - begin} ms`,
+        );
+      } else if (begin - previous.end > maxGap) {
+        report(
+          'warning',
+          'clip-gap',
+          `Clip starts ${begin - previous.end} ms after the end of the previous clip${previousName}`,
+        );
+      }
+    }
+
+    previousByAudio.set(audioHref, { key, begin, end });
+    elapsed += clip.duration ?? 0;
+  };
+
+  // Every audio clip counts, as in buildBookTimeline and updateTotalTimesFromTrees
+  const walk = (node: SmilTimeNode, smilHref: string, parId?: string) => {
+    if (node.type === 'seq' || node.type === 'par') {
+      const childParId = node.type === 'par' ? node.id : parId;
+      node.children.forEach((child) => walk(child, smilHref, childParId));
+    } else if (node.type === 'audio') {
+      checkClip(node, smilHref, parId);
+    }
+  };
+
+  book.spine.forEach(({ item, smil }) => {
+    const smilHref = item.href;
+    const declaredElapsed = smil.metadata['dtb:totalElapsedTime'];
+
+    if (
+      declaredElapsed !== undefined &&
+      Math.abs(parseTime(declaredElapsed) - elapsed) > tolerance
+    ) {
+      issues.push({
+        severity: 'error',
+        code: 'elapsed-time-mismatch',
+        message: `dtb:totalElapsedTime is ${declaredElapsed}, clip durations add up to ${formatTime(elapsed)}`,
+        smilHref,
+      });
+    }
+
+    walk(smil.timeline, smilHref);
+  });
+
+  const declaredTotal = book.opf.metadata['dtb:totalTime'];
+  if (
+    declaredTotal !== undefined &&
+    Math.abs(parseTime(declaredTotal) - elapsed) > tolerance
+  ) {
+    issues.push({
+      severity: 'error',
+      code: 'total-time-mismatch',
+      message: `dtb:totalTime is ${declaredTotal}, clip durations add up to ${formatTime(elapsed)}`,
+    });
+  }
+
+  return { issues, totalDuration: elapsed };
+}
@@ -6,63 +6,253 @@
 import { select, selectAll } from 'unist-util-select';
 import { visit } from 'unist-util-visit';
 import type { Element, Root, Text } from 'xast';
-import type { NavPoint, NcxData, NcxMetadata } from '@/lib/types';
-import { extractMetadata, parseXml } from '@/lib/utils';
+import {
+  InvalidValueError,
+  MissingAttributeError,
+  MissingElementError,
+  MissingRootError,
+} from '@/lib/errors';
+import { createParseContext } from '@/lib/parse-context';
+import type {
+  DtbData,
+  DtbSection,
+  NavList,
+  NavPoint,
+  NavPointInput,
+  NavTreeNode,
+  NcxBuildOptions,
+  NcxData,
+  NcxGenerationOptions,
+  NcxMetadata,
+  PageTarget,
+  PageTargetType,
+  ParseContext,
+  ParseOptions,
+} from '@/lib/types';
+import {
+  DAISY_DOCTYPES,
+  DAISY_NAMESPACES,
+  createDocument,
+  createElement,
+  extractMetadata,
+  getDocumentElement,
+  getTextContent,
+  parseXml,
+} from '@/lib/utils';
 
 /**
- * Recursively parse navigation points with level tracking
+ * Get the label text of a navPoint, pageTarget, navTarget or navList
+ * (an empty string when the navLabel is missing)
+ */
+function getNavLabel(element: Element, context: ParseContext): string {
+  const label = (
+    select('element[name=navLabel] > element[name=text] > text', element) as
+      | Text
+      | undefined
+  )?.value;
+
+  if (label === undefined) {
+    context.reject(
+      MissingElementError,
+      `Invalid NCX file: ${element.name} has no navLabel text`,
+      'empty label',
+      element,
+    );
+  }
+
+  return label ?? '';
+}
+
+/**
+ * Get the content src of a navPoint, pageTarget or navTarget
+ */
+function getContentSrc(element: Element, context: ParseContext): string {
+  const content = element.children.find(
+    (child): child is Element =>
+      child.type === 'element' && child.name === 'content',
+  );
+
+  if (!content) {
+    context.reject(
+      MissingElementError,
+      `Invalid NCX file: ${element.name} has no content element`,
+      'src ""',
+      element,
+    );
+  } else if (!content.attributes.src) {
+    context.reject(
+      MissingAttributeError,
+      'Invalid NCX file: content has no src attribute',
+      'src ""',
+      content,
+    );
+  }
+
+  return content?.attributes.src || '';
+}
+
+/**
+ * Get the id and playOrder of a navPoint, pageTarget or navTarget
+ */
+function getNavIds(
+  element: Element,
+  context: ParseContext,
+): { id: string; playOrder: number } {
+  const { id, playOrder } = element.attributes;
+  const order = playOrder ? parseInt(playOrder, 10) || 0 : 0;
+
+  if (!id) {
+    context.reject(
+      MissingAttributeError,
+      `Invalid NCX file: ${element.name} has no id attribute`,
+      'id ""',
+      element,
+    );
+  }
+
+  if (!playOrder) {
+    context.reject(
+      MissingAttributeError,
+      `Invalid NCX file: ${element.name} has no playOrder attribute`,
+      'playOrder 0',
+      element,
+    );
+  } else if (!/^\d+$/.test(playOrder)) {
+    context.reject(
+      InvalidValueError,
+      `Invalid NCX file: playOrder "${playOrder}" is not a number`,
+      `playOrder ${order}`,
+      element,
+    );
+  }
+
+  return { id: id || '', playOrder: order };
+}
+
+/**
+ * Parse the pageTarget elements of the pageList
+ */
+function parsePageTargets(tree: Root, context: ParseContext): PageTarget[] {
+  const pageTargetElements = selectAll(
+    'element[name=pageList] > element[name=pageTarget]',
+    tree,
+  ) as Element[];
+
+  return pageTargetElements.map((pageTarget) => {
+    const { type, value } = pageTarget.attributes;
+    const pageType: PageTargetType =
+      type === 'front' || type === 'special' ? type : 'normal';
+
+    if (!type) {
+      context.reject(
+        MissingAttributeError,
+        'Invalid NCX file: pageTarget has no type attribute',
+        'type "normal"',
+        pageTarget,
+      );
+    } else if (type !== pageType) {
+      context.reject(
+        InvalidValueError,
+        `Invalid NCX file: pageTarget type "${type}" is not front, normal or special`,
+        'type "normal"',
+        pageTarget,
+      );
+    }
+
+    return {
+      ...getNavIds(pageTarget, context),
+      type: pageType,
+      value: value ?? undefined,
+      label: getNavLabel(pageTarget, context),
+      src: getContentSrc(pageTarget, context),
+      class: pageTarget.attributes.class ?? undefined,
+    };
+  });
+}
+
+/**
+ * Parse every navList with its navTarget elements
+ */
+function parseNavLists(tree: Root, context: ParseContext): NavList[] {
+  const navListElements = selectAll('element[name=navList]', tree) as Element[];
+
+  return navListElements.map((navList) => {
+    const navTargetElements = navList.children.filter(
+      (child): child is Element =>
+        child.type === 'element' && child.name === 'navTarget',
+    );
+
+    return {
+      id: navList.attributes.id ?? undefined,
+      class: navList.attributes.class ?? undefined,
+      label: getNavLabel(navList, context),
+      navTargets: navTargetElements.map((navTarget) => ({
+        ...getNavIds(navTarget, context),
+        label: getNavLabel(navTarget, context),
+        src: getContentSrc(navTarget, context),
+        class: navTarget.attributes.class ?? undefined,
+      })),
+    };
+  });
+}
+
+/**
+ * Recursively parse navigation points into tree nodes with level tracking
  */
 function parseNavPoints(
   navPointElements: Element[],
   level: number,
-): NavPoint[] {
-  const result: NavPoint[] = [];
-
-  navPointElements.forEach((navPoint) => {
-    const { id, playOrder } = navPoint?.attributes || {};
-
-    // Get label
-    const label = (
-      select(
-        'element[name=navLabel] > element[name=text] > text',
-        navPoint,
-      ) as Text
-    )?.value;
-
-    // Get content src
-    const { src } =
-      (select('element[name=content]', navPoint) as Element)?.attributes || {};
-
-    result.push({
-      id: id || '',
-      level,
-      label,
-      src: src || '',
-      playOrder: playOrder ? parseInt(playOrder, 10) : 0,
-    });
+  context: ParseContext,
+  parentId?: string,
+): NavTreeNode[] {
+  return navPointElements.map((navPoint) => {
+    const { id, playOrder } = getNavIds(navPoint, context);
 
     // Parse nested navigation points - use direct children to avoid infinite recursion
-    const nestedNavPoints = selectAll(
-      '* > element[name=navPoint]',
-      navPoint,
-    ) as Element[];
-    if (nestedNavPoints.length > 0) {
-      result.push(...parseNavPoints(nestedNavPoints, level + 1));
-    }
+    const nestedNavPoints = navPoint.children.filter(
+      (child): child is Element =>
+        child.type === 'element' && child.name === 'navPoint',
+    );
+
+    return {
+      id,
+      level,
+      label: getNavLabel(navPoint, context),
+      src: getContentSrc(navPoint, context),
+      playOrder,
+      parentId,
+      children: parseNavPoints(nestedNavPoints, level + 1, context, id),
+    };
   });
+}
 
-  return result;
+/**
+ * Flatten a navMap tree into navigation points in document order
+ */
+function flattenNavTree(nodes: NavTreeNode[]): NavPoint[] {
+  return nodes.flatMap(({ children, ...navPoint }) => [
+    navPoint,
+    ...flattenNavTree(children),
+  ]);
 }
 
 /**
  * Parse NCX file content and extract navigation structure
+ * Missing ids, playOrders, labels and targets are recovered from and listed
+ * in `warnings`, or thrown with `{ strict: true }`
+ * @throws XmlSyntaxError or MissingRootError, and any DaisyError in strict mode
  */
-export function parseNcx(ncxContent: string): NcxData {
-  const tree = parseXml(ncxContent);
-  const ncxElement = select('element[name=ncx]', tree);
+export function parseNcx(ncxContent: string, options?: ParseOptions): NcxData {
+  const context = createParseContext(options);
+  const { fileName } = context;
+  const tree = parseXml(ncxContent, fileName);
+  const ncxElement = select('element[name=ncx]', tree) as Element | undefined;
 
   if (!ncxElement) {
-    throw new Error('Invalid NCX file: no ncx element found');
+    throw new MissingRootError('Invalid NCX file: no ncx element found', {
+      fileName,
+      node: getDocumentElement(tree),
+    });
   }
 
   const metaElements = selectAll('element[name=meta]', tree) as Element[];
@@ -73,21 +263,60 @@ export function parseNcx(ncxContent: string): NcxData {
     select('element[name=docTitle] > element[name=text] > text', tree) as Text
   )?.value;
 
+  if (docTitle === undefined) {
+    context.reject(
+      MissingElementError,
+      'Invalid NCX file: no docTitle text found',
+      'no docTitle',
+      ncxElement,
+    );
+  }
+  if (!select('element[name=navMap]', tree)) {
+    context.reject(
+      MissingElementError,
+      'Invalid NCX file: no navMap element found',
+      'empty navMap',
+      ncxElement,
+    );
+  }
+
   // Extract navigation map - only get direct children to avoid duplicates
   const navPointElements = selectAll(
     'element[name=navMap] > element[name=navPoint]',
     tree,
   ) as Element[];
 
-  const navPoints = parseNavPoints(navPointElements, 1);
+  const navTree = parseNavPoints(navPointElements, 1, context);
+  const navPoints = flattenNavTree(navTree);
 
   return {
     metadata,
     navPoints,
+    navTree,
+    pageTargets: parsePageTargets(tree, context),
+    navLists: parseNavLists(tree, context),
     docTitle,
+    warnings: context.warnings,
   };
 }
 
+/**
+ * Find the page target for a print page
+ * Matches the pageTarget value first, then its label
+ * @param page Page number or label, e.g. 123 or "xii"
+ */
+export function findPageTarget(
+  ncx: NcxData,
+  page: string | number,
+): PageTarget | undefined {
+  const key = String(page).trim();
+
+  return (
+    ncx.pageTargets.find((pageTarget) => pageTarget.value === key) ||
+    ncx.pageTargets.find((pageTarget) => pageTarget.label?.trim() === key)
+  );
+}
+
 /**
  * Update NCX metadata in-place from a new XML tree
  * Returns updated NcxData
@@ -100,12 +329,14 @@ export function updateNcxMetadataFromTree(
   const shouldCreate = options?.createIfMissing !== false;
 
   const updatedKeys = new Set<string>();
+  let metaParent: Root | Element | undefined;
 
   visit(tree, { type: 'element', name: 'meta' }, (element, index, parent) => {
     if (element.type !== 'element') {
       return;
     }
 
+    metaParent ??= parent;
     const name = element.attributes?.name;
 
     if (name && newMetadata[name] !== undefined) {
@@ -115,19 +346,351 @@ export function updateNcxMetadataFromTree(
       };
       updatedKeys.add(name);
     }
+  });
+
+  // Optionally add new <meta> elements for keys in newMetadata that were not updated
+  if (shouldCreate) {
+    const headElement =
+      metaParent || (select('element[name=head]', tree) as Element);
 
-    // Optionally add new <meta> elements for keys in newMetadata that were not updated
-    if (shouldCreate) {
-      Object.entries(newMetadata).forEach(([key, value]) => {
-        if (updatedKeys.has(key)) return;
-
-        parent?.children.push({
-          type: 'element',
-          name: 'meta',
-          attributes: { name: key, content: String(value) },
-          children: [],
-        });
+    Object.entries(newMetadata).forEach(([key, value]) => {
+      if (updatedKeys.has(key) || value === undefined) return;
+
+      headElement?.children.push({
+        type: 'element',
+        name: 'meta',
+        attributes: { name: key, content: String(value) },
+        children: [],
       });
+    });
+  }
+}
+
+/**
+ * Get the ancestors of a navigation point, outermost first
+ */
+export function getNavPointAncestors(ncx: NcxData, id: string): NavPoint[] {
+  const byId = new Map(
+    ncx.navPoints.map((navPoint) => [navPoint.id, navPoint]),
+  );
+  const ancestors: NavPoint[] = [];
+  let parentId = byId.get(id)?.parentId;
+
+  while (parentId !== undefined) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+
+    ancestors.unshift(parent);
+    ({ parentId } = parent);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Get the navigation points sharing the same parent, in document order
+ */
+function getNavPointSiblings(ncx: NcxData, id: string): NavPoint[] {
+  const navPoint = ncx.navPoints.find((point) => point.id === id);
+
+  if (!navPoint) return [];
+
+  return ncx.navPoints.filter(
+    (point) =>
+      point.level === navPoint.level && point.parentId === navPoint.parentId,
+  );
+}
+
+/**
+ * Get the next navigation point at the same level under the same parent
+ */
+export function getNextSiblingNavPoint(
+  ncx: NcxData,
+  id: string,
+): NavPoint | undefined {
+  const siblings = getNavPointSiblings(ncx, id);
+  const index = siblings.findIndex((point) => point.id === id);
+
+  return index === -1 ? undefined : siblings[index + 1];
+}
+
+/**
+ * Get the previous navigation point at the same level under the same parent
+ */
+export function getPreviousSiblingNavPoint(
+  ncx: NcxData,
+  id: string,
+): NavPoint | undefined {
+  const siblings = getNavPointSiblings(ncx, id);
+  const index = siblings.findIndex((point) => point.id === id);
+
+  return index <= 0 ? undefined : siblings[index - 1];
+}
+
+/**
+ * Walk up from a navigation point to the enclosing section at a given level
+ * Returns the navigation point itself when it is already at that level
+ */
+export function getEnclosingNavPoint(
+  ncx: NcxData,
+  id: string,
+  level: number,
+): NavPoint | undefined {
+  const navPoint = ncx.navPoints.find((point) => point.id === id);
+
+  if (!navPoint || navPoint.level < level) return undefined;
+  if (navPoint.level === level) return navPoint;
+
+  return getNavPointAncestors(ncx, id).find((point) => point.level === level);
+}
+
+/**
+ * Create a navLabel element
+ */
+function createNavLabel(label: string): Element {
+  return createElement('navLabel', {}, [
+    createElement('text', {}, [{ type: 'text', value: label }]),
+  ]);
+}
+
+/**
+ * Create a DAISY v3 NCX tree
+ * dtb:depth, dtb:totalPageCount and dtb:maxPageNumber are computed from the
+ * navigation points and page targets
+ * @example
+ * toXml(createNcxTree({
+ *   uid: 'book-1',
+ *   title: 'My Book',
+ *   navPoints: [{ id: 'nav-1', label: 'Chapter 1', src: 's1.smil#p1' }],
+ * }))
+ */
+export function createNcxTree(options: NcxBuildOptions): Root {
+  const playOrdersBySrc = new Map<string, number>();
+  let lastPlayOrder = 0;
+  const getPlayOrder = (src: string, playOrder?: number) => {
+    const order = playOrder ?? playOrdersBySrc.get(src) ?? lastPlayOrder + 1;
+
+    if (!playOrdersBySrc.has(src)) playOrdersBySrc.set(src, order);
+    lastPlayOrder = Math.max(lastPlayOrder, order);
+
+    return String(order);
+  };
+
+  let depth = 0;
+  const convertNavPoint = (navPoint: NavPointInput, level: number): Element => {
+    depth = Math.max(depth, level);
+
+    return createElement(
+      'navPoint',
+      {
+        id: navPoint.id,
+        class: navPoint.class,
+        playOrder: getPlayOrder(navPoint.src, navPoint.playOrder),
+      },
+      [
+        createNavLabel(navPoint.label),
+        createElement('content', { src: navPoint.src }),
+        ...(navPoint.children ?? []).map((child) =>
+          convertNavPoint(child, level + 1),
+        ),
+      ],
+    );
+  };
+
+  const navMap = createElement(
+    'navMap',
+    {},
+    options.navPoints.map((navPoint) => convertNavPoint(navPoint, 1)),
+  );
+
+  const pageTargets = options.pageTargets ?? [];
+  const maxPageNumber = Math.max(
+    0,
+    ...pageTargets
+      .filter((target) => (target.type ?? 'normal') === 'normal')
+      .map((target) => parseInt(target.value || '', 10) || 0),
+  );
+  const pageList = createElement(
+    'pageList',
+    {},
+    pageTargets.map((target) =>
+      createElement(
+        'pageTarget',
+        {
+          id: target.id,
+          class: target.class,
+          type: target.type ?? 'normal',
+          value: target.value,
+          playOrder: getPlayOrder(target.src, target.playOrder),
+        },
+        [
+          createNavLabel(target.label),
+          createElement('content', { src: target.src }),
+        ],
+      ),
+    ),
+  );
+
+  const navLists = (options.navLists ?? []).map((navList) =>
+    createElement('navList', { id: navList.id, class: navList.class }, [
+      createNavLabel(navList.label),
+      ...navList.navTargets.map((target) =>
+        createElement(
+          'navTarget',
+          {
+            id: target.id,
+            class: target.class,
+            playOrder: getPlayOrder(target.src, target.playOrder),
+          },
+          [
+            createNavLabel(target.label),
+            createElement('content', { src: target.src }),
+          ],
+        ),
+      ),
+    ]),
+  );
+
+  const ncx = createElement(
+    'ncx',
+    {
+      xmlns: DAISY_NAMESPACES.ncx,
+      version: '2005-1',
+      'xml:lang': options.lang,
+    },
+    [
+      createElement('head', {}, [
+        createElement('meta', { name: 'dtb:uid', content: options.uid }),
+        createElement('meta', { name: 'dtb:depth', content: String(depth) }),
+        createElement('meta', {
+          name: 'dtb:totalPageCount',
+          content: String(pageTargets.length),
+        }),
+        createElement('meta', {
+          name: 'dtb:maxPageNumber',
+          content: String(maxPageNumber),
+        }),
+      ]),
+      createElement('docTitle', {}, [
+        createElement('text', {}, [{ type: 'text', value: options.title }]),
+      ]),
+      ...(options.authors ?? []).map((author) =>
+        createElement('docAuthor', {}, [
+          createElement('text', {}, [{ type: 'text', value: author }]),
+        ]),
+      ),
+      navMap,
+      ...(pageTargets.length > 0 ? [pageList] : []),
+      ...navLists,
+    ],
+  );
+
+  return createDocument(ncx, DAISY_DOCTYPES.ncx);
+}
+
+/**
+ * Generate a complete NCX tree from a DTBook
+ * Levels become navPoints pointing to their heading (or to the level when the
+ * heading has no id) and pagenum elements become pageTargets; elements without
+ * an id cannot be targeted and are left out. playOrder follows the document
+ * order of the targets; targets with the same src share one playOrder.
+ * With a sync index, content src points to the SMIL par of the target,
+ * otherwise to the DTBook element itself.
+ */
+export function generateNcx(
+  dtb: DtbData,
+  options: NcxGenerationOptions = {},
+): Root {
+  const dtbHref = options.dtbHref ?? 'book.xml';
+  const documentOrder = new Map<string, number>();
+  const pagenums: Element[] = [];
+
+  visit(dtb.tree, 'element', (element: Element) => {
+    const { id } = element.attributes;
+    if (!id) return;
+
+    if (!documentOrder.has(id)) documentOrder.set(id, documentOrder.size);
+    if (element.name === 'pagenum') pagenums.push(element);
+  });
+
+  const getTargetId = (section: DtbSection) => section.headingId || section.id;
+  const collectTargetIds = (sections: DtbSection[]): string[] =>
+    sections.flatMap((section) => {
+      const targetId = getTargetId(section);
+
+      return [
+        ...(targetId ? [targetId] : []),
+        ...collectTargetIds(section.children),
+      ];
+    });
+  const targetIds = [
+    ...new Set([
+      ...collectTargetIds(dtb.sections),
+      ...pagenums.map((pagenum) => pagenum.attributes.id!),
+    ]),
+  ].sort((a, b) => documentOrder.get(a)! - documentOrder.get(b)!);
+
+  const getSrc = (id: string) => {
+    const point = options.syncIndex?.byText[`${dtbHref}#${id}`]?.find(
+      (candidate) => candidate.parId,
+    );
+
+    return point ? `${point.smilHref}#${point.parId}` : `${dtbHref}#${id}`;
+  };
+
+  // Targets that resolve to the same src share one playOrder
+  const playOrdersBySrc = new Map<string, number>();
+  targetIds.forEach((id) => {
+    const src = getSrc(id);
+    if (!playOrdersBySrc.has(src)) {
+      playOrdersBySrc.set(src, playOrdersBySrc.size + 1);
     }
   });
+
+  // Nested levels of a level without id move up to its parent
+  const convertSection = (section: DtbSection): NavPointInput[] => {
+    const targetId = getTargetId(section);
+    const children = section.children.flatMap(convertSection);
+
+    if (!targetId) return children;
+
+    return [
+      {
+        id: `nav-${targetId}`,
+        class: `level${section.level}`,
+        label: section.heading ?? '',
+        src: getSrc(targetId),
+        playOrder: playOrdersBySrc.get(getSrc(targetId)),
+        children,
+      },
+    ];
+  };
+
+  const { metadata } = dtb;
+
+  return createNcxTree({
+    uid: options.uid ?? metadata.identifier ?? '',
+    title: options.title ?? dtb.docTitle ?? metadata.title ?? '',
+    authors:
+      dtb.docAuthors.length > 0
+        ? dtb.docAuthors
+        : [metadata.creator].filter((author): author is string => !!author),
+    navPoints: dtb.sections.flatMap(convertSection),
+    pageTargets: pagenums.map((pagenum) => {
+      const { id, page } = pagenum.attributes as { id: string; page?: string };
+      const label = getTextContent(pagenum).replace(/\s+/g, ' ').trim();
+      const type: PageTargetType =
+        page === 'front' || page === 'special' ? page : 'normal';
+
+      return {
+        id: `page-${id}`,
+        class: 'pagenum',
+        type,
+        value: type === 'normal' && /^\d+$/.test(label) ? label : undefined,
+        label,
+        src: getSrc(id),
+        playOrder: playOrdersBySrc.get(getSrc(id)),
+      };
+    }),
+  });
 }
@@ -5,101 +5,339 @@
 import { select, selectAll } from 'unist-util-select';
 import { visit } from 'unist-util-visit';
 import type { Element, Root, Text } from 'xast';
+import {
+  DuplicateIdError,
+  InvalidValueError,
+  MissingAttributeError,
+  MissingElementError,
+  MissingRootError,
+  UnresolvedReferenceError,
+} from '@/lib/errors';
+import { createParseContext } from '@/lib/parse-context';
 import type {
+  DcElementInput,
+  DcMetadataEntry,
   ManifestItem,
+  OpfBuildOptions,
   OpfData,
   OpfMetadata,
+  ParseOptions,
   SpineItem,
 } from '@/lib/types';
-import { extractMetadata, parseXml } from '@/lib/utils';
+import {
+  DAISY_DOCTYPES,
+  DAISY_NAMESPACES,
+  createDocument,
+  createElement,
+  extractMetadata,
+  getDocumentElement,
+  getDublinCoreName,
+  getNamespaceScopes,
+  getTextContent,
+  inferMediaType,
+  isOpfElement,
+  parseXml,
+  splitQualifiedName,
+} from '@/lib/utils';
+
+/**
+ * Read a Dublin Core element with its attributes
+ * OPF 2.0 style prefixed attributes (opf:role) are read by local name and
+ * namespace declarations are left out of the attributes
+ */
+export function parseDcElement(element: Element): DcMetadataEntry {
+  const attributes: Record<string, string> = {};
+  const refinements: Record<string, string> = {};
+
+  Object.entries(element.attributes).forEach(([name, value]) => {
+    if (value === null || value === undefined) return;
+    if (name === 'xmlns' || name.startsWith('xmlns:')) return;
+
+    attributes[name] = value;
+    refinements[name.slice(name.indexOf(':') + 1)] = value;
+  });
+
+  return {
+    value: getTextContent(element).trim(),
+    attributes,
+    id: refinements.id,
+    role: refinements.role,
+    fileAs: refinements['file-as'],
+    scheme: refinements.scheme,
+    event: refinements.event,
+  };
+}
+
+/**
+ * Dublin Core elements exposed in the flat OpfMetadata view
+ */
+const FLAT_DC_NAMES = new Set([
+  'title',
+  'creator',
+  'identifier',
+  'subject',
+  'description',
+  'publisher',
+  'date',
+  'language',
+  'source',
+  'format',
+]);
+
+/**
+ * Get the lowercase local name of an element, e.g. "title" for dc:Title
+ */
+function getLocalName(element: Element): string {
+  return splitQualifiedName(element.name).localName.toLowerCase();
+}
+
+/**
+ * Find the first OPF element of an OPF tree with a given local name
+ * (package, metadata, manifest, ...), whatever its prefix
+ */
+function findOpfElement(
+  tree: Root,
+  scopes: Map<Element, Record<string, string>>,
+  name: string,
+): Element | undefined {
+  return (selectAll('element', tree) as Element[]).find((element) =>
+    isOpfElement(element, scopes, name),
+  );
+}
+
+/**
+ * Get the child OPF elements of a parent with a given local name
+ */
+function getChildElements(
+  parent: Element,
+  scopes: Map<Element, Record<string, string>>,
+  name: string,
+): Element[] {
+  return parent.children.filter(
+    (child): child is Element =>
+      child.type === 'element' && isOpfElement(child, scopes, name),
+  );
+}
+
+/**
+ * Create a child element with the prefix of its parent (opf:item in
+ * opf:manifest)
+ */
+function createChildElement(
+  parent: Element,
+  name: string,
+  attributes: Record<string, string | undefined>,
+): Element {
+  const { prefix } = splitQualifiedName(parent.name);
+
+  return createElement(prefix ? `${prefix}:${name}` : name, attributes);
+}
+
+/**
+ * Get the children of the metadata, dc-metadata and x-metadata elements
+ * Works for OPF 1.2 (dc-metadata/x-metadata) and OPF 2.0 (flat metadata)
+ */
+function getMetadataElements(tree: Root): Element[] {
+  const elements: Element[] = [];
+  const isContainer = (node: Element) =>
+    ['metadata', 'dc-metadata', 'x-metadata'].includes(getLocalName(node));
+
+  visit(tree, 'element', (element: Element, _, parent) => {
+    if (parent?.type === 'element' && isContainer(parent)) {
+      if (!isContainer(element)) elements.push(element);
+    }
+  });
+
+  return elements;
+}
 
 /**
  * Parse OPF file content and extract metadata, manifest, and spine
+ * Dublin Core elements are found by namespace in any case (dc:Title or
+ * dc:title), in dc-metadata or directly in metadata
+ * Missing attributes, unresolved idrefs and duplicate ids are recovered from
+ * and listed in `warnings`, or thrown with `{ strict: true }`
+ * @throws XmlSyntaxError or MissingRootError, and any DaisyError in strict mode
  */
-export function parseOpf(opfContent: string): OpfData {
-  const tree = parseXml(opfContent);
-  const packageElement = select('element[name=package]', tree);
+export function parseOpf(opfContent: string, options?: ParseOptions): OpfData {
+  const context = createParseContext(options);
+  const { fileName } = context;
+  const tree = parseXml(opfContent, fileName);
+  const scopes = getNamespaceScopes(tree);
+  const packageElement = findOpfElement(tree, scopes, 'package');
 
   if (!packageElement) {
-    throw new Error('Invalid OPF file: no package element found');
+    throw new MissingRootError('Invalid OPF file: no package element found', {
+      fileName,
+      node: getDocumentElement(tree),
+    });
   }
 
   // Extract metadata
   const metadata: OpfMetadata = {};
+  const dcMetadata: Record<string, DcMetadataEntry[]> = {};
+  const metadataElements = getMetadataElements(tree);
 
-  const metadataMapping = {
-    'dc:Title': 'title',
-    'dc:Creator': 'creator',
-    'dc:Identifier': 'identifier',
-    'dc:Subject': 'subject',
-    'dc:Description': 'description',
-    'dc:Publisher': 'publisher',
-    'dc:Date': 'date',
-    'dc:Language': 'language',
-    'dc:Source': 'source',
-    'dc:Format': 'format',
-  };
+  // Extract all Dublin Core elements
+  metadataElements.forEach((element) => {
+    const dcName = getDublinCoreName(element, scopes);
+    if (!dcName) return;
+
+    const entry = parseDcElement(element);
+    (dcMetadata[dcName] ??= []).push(entry);
 
-  const dcMetadataElements = selectAll(
-    'element[name=dc-metadata] > *',
-    tree,
-  ) as Element[];
-  const xMetadataElements = selectAll(
-    'element[name=x-metadata] > element[name=meta]',
-    tree,
-  ) as Element[];
-
-  // Extract all <dc:*> elements
-  dcMetadataElements?.forEach((element) => {
-    const metadataKey =
-      metadataMapping[element.name as keyof typeof metadataMapping];
-
-    if (metadataKey) {
-      metadata[metadataKey] = (select('text', element) as Text)?.value;
+    if (FLAT_DC_NAMES.has(dcName)) {
+      metadata[dcName] = entry.value;
     }
   });
 
-  // Extract all <meta> elements
-  const xMetadata = extractMetadata(xMetadataElements);
+  // The unique identifier wins over other dc:Identifier elements
+  const uniqueIdentifierId = packageElement.attributes['unique-identifier'];
+  const uniqueIdentifier = dcMetadata.identifier?.find(
+    (entry) => uniqueIdentifierId && entry.id === uniqueIdentifierId,
+  );
+
+  if (!uniqueIdentifierId) {
+    context.reject(
+      MissingAttributeError,
+      'Invalid OPF file: package has no unique-identifier attribute',
+      'identifier of the last dc:Identifier',
+      packageElement,
+    );
+  } else if (!uniqueIdentifier) {
+    context.reject(
+      UnresolvedReferenceError,
+      `Invalid OPF file: unique-identifier "${uniqueIdentifierId}" matches no dc:Identifier`,
+      'identifier of the last dc:Identifier',
+      packageElement,
+    );
+  }
+
+  // Extract all <meta> elements, with a name or a property
+  const xMetadata = extractMetadata(
+    metadataElements.filter((element) => getLocalName(element) === 'meta'),
+  );
 
   Object.assign(metadata, {
     ...metadata,
     ...xMetadata,
   });
 
+  if (uniqueIdentifier) {
+    metadata.identifier = uniqueIdentifier.value;
+  }
+
+  // The manifest and spine are required, even when empty
+  const manifestElement = findOpfElement(tree, scopes, 'manifest');
+  const spineElement = findOpfElement(tree, scopes, 'spine');
+
+  Object.entries({ manifest: manifestElement, spine: spineElement }).forEach(
+    ([name, element]) => {
+      if (!element) {
+        context.reject(
+          MissingElementError,
+          `Invalid OPF file: no ${name} element found`,
+          `empty ${name}`,
+          packageElement,
+        );
+      }
+    },
+  );
+
   // Extract manifest
-  const itemElements = selectAll(
-    'element[name=manifest] > element[name=item]',
-    tree,
-  ) as Element[];
+  const itemElements = manifestElement
+    ? getChildElements(manifestElement, scopes, 'item')
+    : [];
+  const manifestIds = new Set<string>();
+
+  const manifest: ManifestItem[] = itemElements.map((item) => {
+    const { id } = item.attributes;
+
+    ['id', 'href', 'media-type'].forEach((name) => {
+      if (!item.attributes[name]) {
+        context.reject(
+          MissingAttributeError,
+          `Invalid OPF file: manifest item has no ${name} attribute`,
+          `${name} ""`,
+          item,
+        );
+      }
+    });
+
+    if (id && manifestIds.has(id)) {
+      context.reject(
+        DuplicateIdError,
+        `Invalid OPF file: manifest item "${id}" already exists`,
+        'both items kept',
+        item,
+      );
+    }
+    if (id) manifestIds.add(id);
 
-  const manifest: ManifestItem[] = itemElements.map((item) => ({
-    id: item.attributes.id || '',
-    href: item.attributes.href || '',
-    mediaType: item.attributes['media-type'] || '',
-  }));
+    return {
+      id: id || '',
+      href: item.attributes.href || '',
+      mediaType: item.attributes['media-type'] || '',
+    };
+  });
 
   // Extract spine
-  const itemrefElements = selectAll(
-    'element[name=spine] > element[name=itemref]',
-    tree,
-  ) as Element[];
+  const itemrefElements = spineElement
+    ? getChildElements(spineElement, scopes, 'itemref')
+    : [];
+
+  const spine: SpineItem[] = itemrefElements.map((itemref) => {
+    const { idref, linear } = itemref.attributes;
 
-  const spine: SpineItem[] = itemrefElements.map((itemref) => ({
-    idref: itemref.attributes.idref || '',
-    linear: itemref.attributes.linear !== 'no',
-  }));
+    if (!idref) {
+      context.reject(
+        MissingAttributeError,
+        'Invalid OPF file: spine itemref has no idref attribute',
+        'idref ""',
+        itemref,
+      );
+    } else if (!manifestIds.has(idref)) {
+      context.reject(
+        UnresolvedReferenceError,
+        `Invalid OPF file: spine itemref "${idref}" has no manifest item`,
+        'itemref kept',
+        itemref,
+      );
+    }
+
+    if (linear && linear !== 'yes' && linear !== 'no') {
+      context.reject(
+        InvalidValueError,
+        `Invalid OPF file: spine itemref linear "${linear}" is not yes or no`,
+        'linear "yes"',
+        itemref,
+      );
+    }
+
+    return {
+      idref: idref || '',
+      linear: linear !== 'no',
+    };
+  });
 
   return {
     metadata,
+    dcMetadata,
+    uniqueIdentifier,
     manifest,
     spine,
+    warnings: context.warnings,
   };
 }
 
 /**
  * Update OPF metadata in-place from a new XML tree
- * Returns updated OpfData
+ * Keys such as dc:Title or dc:title update the Dublin Core elements of that
+ * name whatever their prefix and case; other keys update the meta elements
+ * with that name or property
+ * Missing meta elements go to x-metadata, which is created in OPF 1.2 files
+ * @throws MissingRootError without a package element, MissingElementError
+ * when metadata has to be added and there is no metadata element
  */
 export function updateOpfMetadataFromTree(
   tree: Root,
@@ -108,101 +346,113 @@ export function updateOpfMetadataFromTree(
 ) {
   const shouldCreate = options?.createIfMissing !== false;
 
-  const packageElement = select('element[name=package]', tree);
+  const scopes = getNamespaceScopes(tree);
+  const packageElement = findOpfElement(tree, scopes, 'package');
   if (!packageElement) {
-    throw new Error('Invalid OPF file: no package element found');
+    throw new MissingRootError('Invalid OPF file: no package element found', {
+      node: getDocumentElement(tree),
+    });
   }
 
-  const dcMetadataParent = select('element[name=dc-metadata]', tree) as Element;
-  const dcMetadataElement = selectAll(
-    'element[name=dc-metadata] > *',
-    tree,
-  ) as Element[];
-  const xMetadataParent = select('element[name=x-metadata]', tree) as Element;
-  const xMetadataElement = selectAll(
-    'element[name=x-metadata] > element[name=meta]',
-    tree,
-  ) as Element[];
-
-  const dcElementNames = [
-    'dc:Title',
-    'dc:Creator',
-    'dc:Identifier',
-    'dc:Subject',
-    'dc:Description',
-    'dc:Publisher',
-    'dc:Date',
-    'dc:Language',
-    'dc:Source',
-  ];
+  const metadataParent = findOpfElement(tree, scopes, 'metadata');
+  const dcMetadataElement = findOpfElement(tree, scopes, 'dc-metadata');
+  const dcMetadataParent = dcMetadataElement ?? metadataParent;
 
+  const dcKeys = new Map(
+    Object.keys(newMetadata)
+      .filter((key) => /^dc:/i.test(key))
+      .map((key) => [key.slice(3).toLowerCase(), key]),
+  );
   const updatedKeys = new Set<string>();
-  dcMetadataElement.forEach((element) => {
-    if (element.type !== 'element') return;
 
-    if (dcElementNames.includes(element.name)) {
+  getMetadataElements(tree).forEach((element) => {
+    const dcName = getDublinCoreName(element, scopes);
+
+    if (dcName) {
+      const key = dcKeys.get(dcName);
       // Only update if the key exists in newMetadata
-      if (newMetadata[element.name] === undefined) return;
+      if (!key || newMetadata[key] === undefined) return;
 
       const textEl = select('text', element) as Text;
 
       if (textEl) {
         // Update existing text node
-        textEl.value = String(newMetadata[element.name]);
+        textEl.value = String(newMetadata[key]);
       } else {
         // Create text node if it doesn't exist
         element.children.push({
           type: 'text',
-          value: String(newMetadata[element.name]),
+          value: String(newMetadata[key]),
         } as Text);
       }
 
-      updatedKeys.add(element.name);
+      updatedKeys.add(key);
+      return;
     }
-  });
 
-  // Update <meta name="dc:Title"> style elements
-  xMetadataElement.forEach((el: Element) => {
-    const name = el.attributes?.name;
+    // Update <meta name="dtb:totalTime"> and <meta property="..."> elements
+    if (getLocalName(element) !== 'meta') return;
 
-    if (name && newMetadata[name] !== undefined) {
-      el.attributes = {
-        ...el.attributes,
-        content: String(newMetadata[name]),
+    const { name, property, content } = element.attributes;
+    const key = name || property;
+    if (!key || newMetadata[key] === undefined) return;
+
+    if (name || content !== undefined) {
+      element.attributes = {
+        ...element.attributes,
+        content: String(newMetadata[key]),
       };
-      updatedKeys.add(name);
+    } else {
+      element.children = [{ type: 'text', value: String(newMetadata[key]) }];
     }
+    updatedKeys.add(key);
   });
 
-  // Optionally add new <meta> elements for keys in newMetadata that were not updated
-  if (shouldCreate) {
-    Object.entries(newMetadata).forEach(([key, value]) => {
-      if (updatedKeys.has(key)) return;
+  // Optionally add new elements for keys in newMetadata that were not updated
+  const newEntries = Object.entries(newMetadata).filter(
+    ([key, value]) => !updatedKeys.has(key) && value !== undefined,
+  );
+  if (!shouldCreate || !newEntries.length) return;
 
-      if (key.startsWith('dc:')) {
-        dcMetadataParent?.children.push({
-          type: 'element',
-          name: key,
-          attributes: {
-            'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
-          },
-          children: [
-            {
-              type: 'text',
-              value: String(newMetadata[key]),
-            } as Text,
-          ],
-        });
-      } else {
-        xMetadataParent.children.push({
-          type: 'element',
-          name: 'meta',
-          attributes: { name: key, content: String(value) },
-          children: [],
-        });
-      }
-    });
+  if (!metadataParent || !dcMetadataParent) {
+    throw new MissingElementError(
+      'Invalid OPF file: no metadata element found',
+      { node: packageElement },
+    );
   }
+
+  // OPF 1.2 only allows meta elements inside x-metadata, so create it
+  const createXMetadata = () => {
+    const element = createChildElement(metadataParent, 'x-metadata', {});
+    metadataParent.children.push(element);
+    return element;
+  };
+  const xMetadataParent =
+    findOpfElement(tree, scopes, 'x-metadata') ??
+    (dcMetadataElement && newEntries.some(([key]) => !/^dc:/i.test(key))
+      ? createXMetadata()
+      : metadataParent);
+  const hasDcNamespace =
+    scopes.get(dcMetadataParent)?.dc === DAISY_NAMESPACES.dc;
+
+  newEntries.forEach(([key, value]) => {
+    if (/^dc:/i.test(key)) {
+      dcMetadataParent.children.push(
+        createElement(
+          key,
+          hasDcNamespace ? {} : { 'xmlns:dc': DAISY_NAMESPACES.dc },
+          [{ type: 'text', value: String(value) }],
+        ),
+      );
+    } else {
+      xMetadataParent.children.push(
+        createChildElement(xMetadataParent, 'meta', {
+          name: key,
+          content: String(value),
+        }),
+      );
+    }
+  });
 }
 
 /**
@@ -217,13 +467,363 @@ export function renameFileInOpfTree(
   oldHref: string,
   newHref: string,
 ) {
+  const scopes = getNamespaceScopes(tree);
+
   visit(tree, 'element', (node: Element) => {
-    if (node.name === 'item' && node.attributes?.href === oldHref) {
+    if (
+      isOpfElement(node, scopes, 'item') &&
+      node.attributes?.href === oldHref
+    ) {
       node.attributes.href = newHref;
+    }
+  });
+}
+
+/**
+ * Create a DAISY v3 OPF package tree
+ * Dublin Core elements are written in dc-metadata, the first dc:Identifier
+ * carrying the unique-identifier id
+ * @example
+ * toXml(createOpfTree({
+ *   dcMetadata: { identifier: 'book-1', title: 'My Book', creator: ['A', 'B'] },
+ *   xMetadata: { 'dtb:multimediaType': 'audioNCX' },
+ *   manifest: [{ id: 'ncx', href: 'book.ncx' }, { id: 's1', href: 's1.smil' }],
+ *   spine: ['s1'],
+ * }))
+ */
+export function createOpfTree(options: OpfBuildOptions): Root {
+  const uniqueIdentifier = options.uniqueIdentifier ?? 'uid';
+  const dcElements: Element[] = [];
+  let hasIdentifier = false;
+  let hasFormat = false;
+
+  Object.entries(options.dcMetadata).forEach(([key, values]) => {
+    const name = `dc:${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+
+    [values].flat().forEach((entry) => {
+      const { value, attributes = {} }: DcElementInput =
+        typeof entry === 'string' ? { value: entry } : entry;
+
+      if (name === 'dc:Identifier' && !hasIdentifier) {
+        hasIdentifier = true;
+        dcElements.push(
+          createElement(name, { ...attributes, id: uniqueIdentifier }, [
+            { type: 'text', value },
+          ]),
+        );
+        return;
+      }
+
+      if (name === 'dc:Format') hasFormat = true;
+      dcElements.push(
+        createElement(name, attributes, [{ type: 'text', value }]),
+      );
+    });
+  });
+
+  if (!hasIdentifier) {
+    throw new MissingElementError(
+      'Cannot create OPF: dc:Identifier is required',
+    );
+  }
+  if (!hasFormat) {
+    dcElements.push(
+      createElement('dc:Format', {}, [
+        { type: 'text', value: 'ANSI/NISO Z39.86-2005' },
+      ]),
+    );
+  }
+
+  const metadata = createElement('metadata', {}, [
+    createElement(
+      'dc-metadata',
+      {
+        'xmlns:dc': DAISY_NAMESPACES.dc,
+        'xmlns:oebpackage': DAISY_NAMESPACES.opf,
+      },
+      dcElements,
+    ),
+  ]);
+
+  if (options.xMetadata && Object.keys(options.xMetadata).length > 0) {
+    metadata.children.push(
+      createElement(
+        'x-metadata',
+        {},
+        Object.entries(options.xMetadata).map(([name, content]) =>
+          createElement('meta', { name, content }),
+        ),
+      ),
+    );
+  }
+
+  const opf = createElement(
+    'package',
+    { xmlns: DAISY_NAMESPACES.opf, 'unique-identifier': uniqueIdentifier },
+    [
+      metadata,
+      createElement(
+        'manifest',
+        {},
+        options.manifest.map(({ id, href, mediaType }) =>
+          createElement('item', {
+            id,
+            href,
+            'media-type': mediaType || inferMediaType(href),
+          }),
+        ),
+      ),
+      createElement(
+        'spine',
+        {},
+        options.spine.map((entry) => {
+          const { idref, linear }: SpineItem =
+            typeof entry === 'string' ? { idref: entry } : entry;
+
+          return createElement('itemref', {
+            idref,
+            linear: linear === false ? 'no' : undefined,
+          });
+        }),
+      ),
+    ],
+  );
+
+  return createDocument(opf, DAISY_DOCTYPES.opf);
+}
+
+/**
+ * Get the manifest or spine element of an OPF tree
+ */
+function getOpfSection(
+  tree: Root,
+  scopes: Map<Element, Record<string, string>>,
+  name: 'manifest' | 'spine',
+): Element {
+  const element = findOpfElement(tree, scopes, name);
+
+  if (!element) {
+    throw new MissingElementError(
+      `Invalid OPF file: no ${name} element found`,
+      { node: findOpfElement(tree, scopes, 'package') },
+    );
+  }
+
+  return element;
+}
 
-      return false; // Stop traversing this branch
+/**
+ * Remove an element from its parent, with the whitespace indenting it
+ */
+function removeChild(parent: Element, element: Element) {
+  const index = parent.children.indexOf(element);
+  const previous = parent.children[index - 1];
+  const isIndent = previous?.type === 'text' && previous.value.trim() === '';
+
+  parent.children.splice(isIndent ? index - 1 : index, isIndent ? 2 : 1);
+}
+
+/**
+ * Insert an element in its parent before another child (default: at the
+ * end), with the whitespace indenting its element siblings
+ */
+function insertChild(parent: Element, element: Element, before?: Element) {
+  const first = parent.children.findIndex((child) => child.type === 'element');
+  const previous = parent.children[first - 1];
+  const indent =
+    previous?.type === 'text' && previous.value.trim() === ''
+      ? previous.value
+      : undefined;
+  const last = parent.children[parent.children.length - 1];
+
+  if (!indent) {
+    if (before) {
+      parent.children.splice(parent.children.indexOf(before), 0, element);
+    } else {
+      parent.children.push(element);
     }
+  } else if (before) {
+    // The indent of the next child now precedes the new element
+    parent.children.splice(parent.children.indexOf(before), 0, element, {
+      type: 'text',
+      value: indent,
+    });
+  } else if (last?.type === 'text' && last.value.trim() === '') {
+    // Keep the whitespace before the end tag last
+    parent.children.splice(parent.children.length - 1, 0, {
+      type: 'text',
+      value: indent,
+    });
+    parent.children.splice(parent.children.length - 1, 0, element);
+  } else {
+    parent.children.push({ type: 'text', value: indent }, element);
+  }
+}
+
+/**
+ * Add an item to the OPF manifest (in-place)
+ * The media type is inferred from the href extension when missing
+ * @returns The new item element
+ */
+export function addManifestItem(
+  tree: Root,
+  item: Omit<ManifestItem, 'mediaType'> & { mediaType?: string },
+): Element {
+  const scopes = getNamespaceScopes(tree);
+  const manifest = getOpfSection(tree, scopes, 'manifest');
+
+  const existing = getChildElements(manifest, scopes, 'item').find(
+    (element) => element.attributes.id === item.id,
+  );
 
-    return undefined;
+  if (existing) {
+    throw new DuplicateIdError(`Manifest item "${item.id}" already exists`, {
+      node: existing,
+    });
+  }
+
+  const element = createChildElement(manifest, 'item', {
+    id: item.id,
+    href: item.href,
+    'media-type': item.mediaType || inferMediaType(item.href),
   });
+  insertChild(manifest, element);
+
+  return element;
+}
+
+/**
+ * Remove an item from the OPF manifest (in-place)
+ * Spine itemrefs pointing to the item are removed as well
+ * @returns Whether the item was found
+ */
+export function removeManifestItem(tree: Root, id: string): boolean {
+  const scopes = getNamespaceScopes(tree);
+  const manifest = getOpfSection(tree, scopes, 'manifest');
+  const item = getChildElements(manifest, scopes, 'item').find(
+    (element) => element.attributes.id === id,
+  );
+
+  if (!item) return false;
+
+  removeChild(manifest, item);
+
+  const spine = findOpfElement(tree, scopes, 'spine');
+  if (spine) {
+    getChildElements(spine, scopes, 'itemref')
+      .filter((itemref) => itemref.attributes.idref === id)
+      .forEach((itemref) => removeChild(spine, itemref));
+  }
+
+  return true;
+}
+
+/**
+ * Insert an itemref in the OPF spine (in-place)
+ * @param idref Id of a manifest item
+ * @param options.index Position among the itemrefs (default: at the end)
+ * @param options.linear Set to false to write linear="no"
+ * @returns The new itemref element
+ */
+export function addSpineItem(
+  tree: Root,
+  idref: string,
+  options?: { index?: number; linear?: boolean },
+): Element {
+  const scopes = getNamespaceScopes(tree);
+  const manifest = getOpfSection(tree, scopes, 'manifest');
+  const spine = getOpfSection(tree, scopes, 'spine');
+
+  if (
+    !getChildElements(manifest, scopes, 'item').some(
+      (element) => element.attributes.id === idref,
+    )
+  ) {
+    throw new UnresolvedReferenceError(
+      `No manifest item "${idref}" for the spine`,
+      { node: manifest },
+    );
+  }
+
+  const itemref = createChildElement(spine, 'itemref', {
+    idref,
+    linear: options?.linear === false ? 'no' : undefined,
+  });
+  insertChild(
+    spine,
+    itemref,
+    getChildElements(spine, scopes, 'itemref')[options?.index ?? Infinity],
+  );
+
+  return itemref;
+}
+
+/**
+ * Move an itemref of the OPF spine to a new position (in-place)
+ * @param index Position among the itemrefs once moved
+ * @returns Whether the itemref was found
+ */
+export function moveSpineItem(
+  tree: Root,
+  idref: string,
+  index: number,
+): boolean {
+  const scopes = getNamespaceScopes(tree);
+  const spine = getOpfSection(tree, scopes, 'spine');
+  const itemref = getChildElements(spine, scopes, 'itemref').find(
+    (element) => element.attributes.idref === idref,
+  );
+
+  if (!itemref) return false;
+
+  removeChild(spine, itemref);
+  insertChild(
+    spine,
+    itemref,
+    getChildElements(spine, scopes, 'itemref')[index],
+  );
+
+  return true;
+}
+
+/**
+ * Remove the itemrefs of a manifest item from the OPF spine (in-place)
+ * @returns Whether an itemref was found
+ */
+export function removeSpineItem(tree: Root, idref: string): boolean {
+  const scopes = getNamespaceScopes(tree);
+  const spine = getOpfSection(tree, scopes, 'spine');
+  const itemrefs = getChildElements(spine, scopes, 'itemref').filter(
+    (element) => element.attributes.idref === idref,
+  );
+
+  itemrefs.forEach((itemref) => removeChild(spine, itemref));
+
+  return itemrefs.length > 0;
+}
+
+/**
+ * Mark a spine itemref as linear or as skippable with linear="no" (in-place)
+ * @returns Whether the itemref was found
+ */
+export function setSpineItemLinear(
+  tree: Root,
+  idref: string,
+  linear: boolean,
+): boolean {
+  const scopes = getNamespaceScopes(tree);
+  const spine = getOpfSection(tree, scopes, 'spine');
+  const itemrefs = getChildElements(spine, scopes, 'itemref').filter(
+    (element) => element.attributes.idref === idref,
+  );
+
+  itemrefs.forEach((itemref) => {
+    if (linear) {
+      delete itemref.attributes.linear;
+    } else {
+      itemref.attributes.linear = 'no';
+    }
+  });
+
+  return itemrefs.length > 0;
 }
@@ -0,0 +1,42 @@
+/**
+ * Context of the lenient and strict parsing modes
+ * Collects the fallbacks a parser applies, or throws them in strict mode
+ */
+
+import type { DaisyError } from '@/lib/errors';
+import type { ParseContext, ParseOptions, ParseWarning } from '@/lib/types';
+
+/**
+ * Create the context of a parser, collecting the fallbacks it applies
+ * In strict mode, the spec violations reported with reject are thrown
+ */
+export function createParseContext(options: ParseOptions = {}): ParseContext {
+  const warnings: ParseWarning[] = [];
+  const { fileName } = options;
+
+  const record = (error: DaisyError, fallback: string) => {
+    warnings.push({
+      code: error.code,
+      message: error.message,
+      fallback,
+      fileName,
+      line: error.line,
+      column: error.column,
+    });
+  };
+
+  return {
+    fileName,
+    strict: options.strict === true,
+    warnings,
+    reject(ErrorClass, reason, fallback, node) {
+      const error = new ErrorClass(reason, { fileName, node });
+
+      if (options.strict) throw error;
+      record(error, fallback);
+    },
+    warn(ErrorClass, reason, fallback, node) {
+      record(new ErrorClass(reason, { fileName, node }), fallback);
+    },
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Resource readers for DAISY v3 filesets
+ * Each reader resolves fileset-relative paths to text content
+ */
+
+import type { ResourceReader } from '@/lib/types';
+
+/**
+ * Normalize a fileset path: forward slashes, no leading "./" or "/"
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+/**
+ * Decode raw bytes as UTF-8 text
+ */
+function decodeText(data: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(data);
+}
+
+/**
+ * Create a reader over an in-memory map of paths to contents
+ * @param files Object mapping fileset paths to text or raw bytes
+ */
+export function createMemoryReader(
+  files: Record<string, string | Uint8Array>,
+): ResourceReader {
+  const entries = new Map(
+    Object.entries(files).map(([path, content]) => [
+      normalizePath(path),
+      content,
+    ]),
+  );
+
+  return {
+    async read(path) {
+      const content = entries.get(normalizePath(path));
+
+      if (content === undefined) {
+        throw new Error(`Resource not found: ${path}`);
+      }
+
+      return typeof content === 'string' ? content : decodeText(content);
+    },
+    async exists(path) {
+      return entries.has(normalizePath(path));
+    },
+  };
+}
+
+/**
+ * Create a reader over a directory on the Node.js filesystem
+ * `node:fs` is loaded lazily so the library stays usable in browsers
+ * @param directory Directory containing the fileset
+ */
+export function createFsReader(directory: string): ResourceReader {
+  const resolvePath = async (path: string) => {
+    const { join } = await import('node:path');
+    return join(directory, normalizePath(path));
+  };
+
+  return {
+    async read(path) {
+      const { readFile } = await import('node:fs/promises');
+      return readFile(await resolvePath(path), 'utf8');
+    },
+    async exists(path) {
+      const { stat } = await import('node:fs/promises');
+
+      try {
+        return (await stat(await resolvePath(path))).isFile();
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+interface ZipEntry {
+  /** Compression method (0 = stored, 8 = deflate) */
+  method: number;
+  /** Size of the compressed data */
+  compressedSize: number;
+  /** Offset of the local file header */
+  offset: number;
+}
+
+/**
+ * Read the central directory of a zip archive
+ */
+function readZipEntries(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries = new Map<string, ZipEntry>();
+
+  // The end of central directory record sits within the last 64KiB + 22 bytes
+  let eocd = -1;
+  for (
+    let i = data.length - 22;
+    i >= Math.max(0, data.length - 65557);
+    i -= 1
+  ) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error('Invalid zip archive: no end of central directory found');
+  }
+
+  const totalEntries = view.getUint16(eocd + 10, true);
+  let position = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < totalEntries; i += 1) {
+    if (view.getUint32(position, true) !== 0x02014b50) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = decodeText(
+      data.subarray(position + 46, position + 46 + nameLength),
+    );
+
+    if (!name.endsWith('/')) {
+      entries.set(normalizePath(name), {
+        method: view.getUint16(position + 10, true),
+        compressedSize: view.getUint32(position + 20, true),
+        offset: view.getUint32(position + 42, true),
+      });
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract the uncompressed bytes of a zip entry
+ */
+async function readZipEntry(
+  data: Uint8Array,
+  entry: ZipEntry,
+): Promise<Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const nameLength = view.getUint16(entry.offset + 26, true);
+  const extraLength = view.getUint16(entry.offset + 28, true);
+  const start = entry.offset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return compressed;
+  }
+
+  if (entry.method !== 8) {
+    throw new Error(
+      `Unsupported zip compression method: ${entry.method} (only stored and deflate are supported)`,
+    );
+  }
+
+  const stream = new Blob([compressed])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Create a reader over a zip archive held in memory
+ * Supports stored and deflated entries using the platform DecompressionStream
+ * @param archive Raw bytes of the zip file
+ */
+export function createZipReader(
+  archive: Uint8Array | ArrayBuffer,
+): ResourceReader {
+  const data =
+    archive instanceof Uint8Array ? archive : new Uint8Array(archive);
+  const entries = readZipEntries(data);
+
+  return {
+    async read(path) {
+      const entry = entries.get(normalizePath(path));
+
+      if (!entry) {
+        throw new Error(`Resource not found: ${path}`);
+      }
+
+      return decodeText(await readZipEntry(data, entry));
+    },
+    async exists(path) {
+      return entries.has(normalizePath(path));
+    },
+  };
+}
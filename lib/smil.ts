@@ -5,13 +5,48 @@
 import { select, selectAll } from 'unist-util-select';
 import { visit } from 'unist-util-visit';
 import type { Element, Root } from 'xast';
-import type { AudioClip, SmilData, SmilMetadata } from '@/lib/types';
-import { calculateDuration, extractMetadata, parseXml } from '@/lib/utils';
+import {
+  InvalidValueError,
+  MissingAttributeError,
+  MissingElementError,
+  MissingRootError,
+  UnresolvedReferenceError,
+} from '@/lib/errors';
+import { createParseContext } from '@/lib/parse-context';
+import type {
+  AudioClip,
+  ParseContext,
+  ParseOptions,
+  SmilBuildOptions,
+  SmilCustomTest,
+  SmilData,
+  SmilMetadata,
+  SmilNodeAttributes,
+  SmilParNode,
+  SmilSeqNode,
+  SmilTimeNode,
+} from '@/lib/types';
+import {
+  DAISY_DOCTYPES,
+  DAISY_NAMESPACES,
+  calculateDuration,
+  createDocument,
+  createElement,
+  extractMetadata,
+  formatTime,
+  getDocumentElement,
+  parseTime,
+  parseXml,
+} from '@/lib/utils';
 
 /**
  * Extract audio clip information from a DAISY v3 SMIL element
+ * Audio without clipBegin or clipEnd plays the whole file and has no clip
  */
-function extractAudioClip(element: Element): AudioClip | null {
+function extractAudioClip(
+  element: Element,
+  context: ParseContext,
+): AudioClip | null {
   // Look for audio element within this element
   const audioElement = select('element[name=audio]', element) as Element;
 
@@ -23,6 +58,14 @@ function extractAudioClip(element: Element): AudioClip | null {
   const { src, clipBegin, clipEnd } = audioElement.attributes;
 
   if (!src || !clipBegin || !clipEnd) {
+    if (src) {
+      context.warn(
+        MissingAttributeError,
+        `SMIL audio "${src}" has no ${clipBegin ? 'clipEnd' : 'clipBegin'} attribute`,
+        'no clip for the par',
+        audioElement,
+      );
+    }
     return null;
   }
 
@@ -38,19 +81,227 @@ function extractAudioClip(element: Element): AudioClip | null {
 }
 
 /**
- * Parse SMIL file content and extract audio timing information
+ * Get the element children of a node
+ */
+function childElements(element: Element): Element[] {
+  return element.children.filter(
+    (child): child is Element => child.type === 'element',
+  );
+}
+
+/**
+ * Read the attributes shared by every timeline node
+ */
+function extractNodeAttributes(element: Element): SmilNodeAttributes {
+  const attributes: SmilNodeAttributes = {};
+
+  (['id', 'class', 'customTest', 'end', 'fill', 'dur'] as const).forEach(
+    (name) => {
+      const value = element.attributes[name];
+      if (value) {
+        attributes[name] = value;
+      }
+    },
+  );
+
+  return attributes;
+}
+
+/**
+ * Check the src, clock values and customTest of a timeline element
+ * @param customTestIds Ids of the customTest declarations
+ */
+function checkTimeNode(
+  element: Element,
+  customTestIds: Set<string>,
+  context: ParseContext,
+) {
+  const { customTest } = element.attributes;
+
+  if (customTest && !customTestIds.has(customTest)) {
+    context.reject(
+      UnresolvedReferenceError,
+      `Invalid SMIL file: customTest "${customTest}" is not declared`,
+      'customTest kept',
+      element,
+    );
+  }
+
+  if (!['text', 'img', 'audio'].includes(element.name)) return;
+
+  if (!element.attributes.src) {
+    context.reject(
+      MissingAttributeError,
+      `Invalid SMIL file: ${element.name} has no src attribute`,
+      'src ""',
+      element,
+    );
+  }
+
+  (['clipBegin', 'clipEnd'] as const).forEach((name) => {
+    const value = element.attributes[name];
+
+    try {
+      if (value) parseTime(value, { strict: true });
+    } catch {
+      context.reject(
+        InvalidValueError,
+        `Invalid SMIL file: ${name} "${value}" is not a clock value`,
+        `${name} 0`,
+        element,
+      );
+    }
+  });
+}
+
+/**
+ * Recursively convert the element children of a time container into timeline nodes
+ * Elements that are not part of the timeline are skipped
  */
-export function parseSmil(smilContent: string, smilFileName: string): SmilData {
-  const tree = parseXml(smilContent);
-  const smilElement = select('element[name=smil]', tree);
+function parseTimeNodes(
+  element: Element,
+  customTestIds: Set<string>,
+  context: ParseContext,
+): SmilTimeNode[] {
+  const nodes: SmilTimeNode[] = [];
+
+  childElements(element).forEach((child) => {
+    const attributes = extractNodeAttributes(child);
+    const src = child.attributes.src || '';
+
+    checkTimeNode(child, customTestIds, context);
+
+    switch (child.name) {
+      case 'seq':
+      case 'par':
+        nodes.push({
+          type: child.name,
+          ...attributes,
+          children: parseTimeNodes(child, customTestIds, context),
+        });
+        break;
+      case 'text':
+        nodes.push({ type: 'text', ...attributes, src });
+        break;
+      case 'img':
+        nodes.push({ type: 'img', ...attributes, src });
+        break;
+      case 'audio': {
+        const { clipBegin, clipEnd } = child.attributes;
+
+        nodes.push({
+          type: 'audio',
+          ...attributes,
+          src,
+          clipBegin: clipBegin || undefined,
+          clipEnd: clipEnd || undefined,
+          duration:
+            clipBegin && clipEnd
+              ? calculateDuration(clipBegin, clipEnd)
+              : undefined,
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * Extract the customTest declarations from the SMIL head
+ */
+function extractCustomTests(
+  tree: Root,
+  context: ParseContext,
+): SmilCustomTest[] {
+  const customTestElements = selectAll(
+    'element[name=customAttributes] > element[name=customTest]',
+    tree,
+  ) as Element[];
+
+  return customTestElements.map((element) => {
+    const { id, defaultState, override, bookStruct } = element.attributes;
+
+    if (!id) {
+      context.reject(
+        MissingAttributeError,
+        'Invalid SMIL file: customTest has no id attribute',
+        'id ""',
+        element,
+      );
+    }
+    if (defaultState && defaultState !== 'true' && defaultState !== 'false') {
+      context.reject(
+        InvalidValueError,
+        `Invalid SMIL file: customTest defaultState "${defaultState}" is not true or false`,
+        'defaultState false',
+        element,
+      );
+    }
+    if (override && override !== 'visible' && override !== 'hidden') {
+      context.reject(
+        InvalidValueError,
+        `Invalid SMIL file: customTest override "${override}" is not visible or hidden`,
+        'override kept',
+        element,
+      );
+    }
+
+    return {
+      id: id || '',
+      defaultState: defaultState === 'true',
+      override: override || 'hidden',
+      bookStruct: bookStruct || undefined,
+    };
+  });
+}
+
+/**
+ * Collect the par nodes of a SMIL timeline in playback order
+ */
+export function getSmilPars(node: SmilTimeNode): SmilParNode[] {
+  if (node.type === 'par') {
+    return [node];
+  }
+
+  if (node.type === 'seq') {
+    return node.children.flatMap((child) => getSmilPars(child));
+  }
+
+  return [];
+}
+
+/**
+ * Extract audio timing information from an already parsed SMIL tree
+ * Missing sources, invalid clock values and undeclared customTests are
+ * recovered from and listed in `warnings`, or thrown with `{ strict: true }`
+ * @throws MissingRootError, and any DaisyError in strict mode
+ */
+export function parseSmilTree(
+  tree: Root,
+  smilFileName: string,
+  options?: ParseOptions,
+): SmilData {
+  const context = createParseContext({
+    ...options,
+    fileName: options?.fileName ?? smilFileName,
+  });
+  const smilElement = select('element[name=smil]', tree) as Element | undefined;
 
   if (!smilElement) {
-    throw new Error('Invalid SMIL file: no smil element found');
+    throw new MissingRootError('Invalid SMIL file: no smil element found', {
+      fileName: context.fileName,
+      node: getDocumentElement(tree),
+    });
   }
 
   // Extract metadata from head
   const metaElements = selectAll('element[name=meta]', tree) as Element[];
   const metadata: SmilMetadata = extractMetadata(metaElements);
+  const customTests = extractCustomTests(tree, context);
 
   // Extract body and parse par/seq elements
   const elements: Record<string, AudioClip> = {};
@@ -59,19 +310,62 @@ export function parseSmil(smilContent: string, smilFileName: string): SmilData {
   parElements.forEach((element) => {
     const { id } = element.attributes;
     if (id) {
-      const audioClip = extractAudioClip(element);
+      const audioClip = extractAudioClip(element, context);
       if (audioClip) {
         elements[`${smilFileName}#${id}`] = audioClip;
       }
     }
   });
 
+  const bodyElement = select('element[name=body]', tree) as Element;
+
+  if (!bodyElement) {
+    context.reject(
+      MissingElementError,
+      'Invalid SMIL file: no body element found',
+      'empty timeline',
+      smilElement,
+    );
+  }
+
+  const timeline: SmilSeqNode = {
+    type: 'seq',
+    ...(bodyElement ? extractNodeAttributes(bodyElement) : {}),
+    children: bodyElement
+      ? parseTimeNodes(
+          bodyElement,
+          new Set(customTests.map((customTest) => customTest.id)),
+          context,
+        )
+      : [],
+  };
+
   return {
     metadata,
     elements,
+    timeline,
+    customTests,
+    warnings: context.warnings,
   };
 }
 
+/**
+ * Parse SMIL file content and extract audio timing information
+ * @see parseSmilTree for the strict and lenient modes
+ * @throws XmlSyntaxError or MissingRootError, and any DaisyError in strict mode
+ */
+export function parseSmil(
+  smilContent: string,
+  smilFileName: string,
+  options?: ParseOptions,
+): SmilData {
+  return parseSmilTree(
+    parseXml(smilContent, options?.fileName ?? smilFileName),
+    smilFileName,
+    options,
+  );
+}
+
 /**
  * Update SMIL metadata in-place from a new XML tree
  * Returns updated SmilData
@@ -84,12 +378,14 @@ export function updateSmilMetadataFromTree(
   const shouldCreate = options?.createIfMissing !== false;
 
   const updatedKeys = new Set<string>();
+  let metaParent: Root | Element | undefined;
 
   visit(tree, { type: 'element', name: 'meta' }, (element, index, parent) => {
     if (element.type !== 'element') {
       return;
     }
 
+    metaParent ??= parent;
     const name = element.attributes?.name;
 
     if (name && newMetadata[name] !== undefined) {
@@ -99,21 +395,24 @@ export function updateSmilMetadataFromTree(
       };
       updatedKeys.add(name);
     }
+  });
 
-    // Optionally add new <meta> elements for keys in newMetadata that were not updated
-    if (shouldCreate) {
-      Object.entries(newMetadata).forEach(([key, value]) => {
-        if (updatedKeys.has(key)) return;
+  // Optionally add new <meta> elements for keys in newMetadata that were not updated
+  if (shouldCreate) {
+    const headElement =
+      metaParent || (select('element[name=head]', tree) as Element);
 
-        parent?.children.push({
-          type: 'element',
-          name: 'meta',
-          attributes: { name: key, content: String(value) },
-          children: [],
-        });
+    Object.entries(newMetadata).forEach(([key, value]) => {
+      if (updatedKeys.has(key) || value === undefined) return;
+
+      headElement?.children.push({
+        type: 'element',
+        name: 'meta',
+        attributes: { name: key, content: String(value) },
+        children: [],
       });
-    }
-  });
+    });
+  }
 }
 
 export function updateAudioTimestampsById(
@@ -138,3 +437,108 @@ export function updateAudioTimestampsById(
     return undefined;
   });
 }
+
+/**
+ * Sum the durations of every audio clip in a SMIL tree, in milliseconds
+ */
+export function getSmilDurationFromTree(tree: Root): number {
+  let duration = 0;
+
+  visit(tree, { type: 'element', name: 'audio' }, (element) => {
+    if (element.type !== 'element') return;
+
+    const { clipBegin, clipEnd } = element.attributes;
+    if (clipBegin && clipEnd) {
+      duration += calculateDuration(clipBegin, clipEnd);
+    }
+  });
+
+  return duration;
+}
+
+/**
+ * Convert a timeline node to a SMIL element
+ */
+function createTimeElement(node: SmilTimeNode): Element {
+  const attributes = {
+    id: node.id,
+    class: node.class,
+    customTest: node.customTest,
+    end: node.end,
+    fill: node.fill,
+    dur: node.dur,
+  };
+
+  switch (node.type) {
+    case 'seq':
+    case 'par':
+      return createElement(
+        node.type,
+        attributes,
+        node.children.map(createTimeElement),
+      );
+    case 'audio':
+      return createElement('audio', {
+        ...attributes,
+        src: node.src,
+        clipBegin: node.clipBegin,
+        clipEnd: node.clipEnd,
+      });
+    default:
+      return createElement(node.type, { ...attributes, src: node.src });
+  }
+}
+
+/**
+ * Create a DAISY v3 SMIL tree
+ * The timeline uses the same nodes as `parseSmil`, so the children of a parsed
+ * timeline can be written back; anything but a single seq is wrapped in one
+ * @example
+ * toXml(createSmilTree({
+ *   uid: 'book-1',
+ *   timeline: [{ type: 'par', id: 'p1', children: [
+ *     { type: 'text', src: 'book.xml#c1' },
+ *     { type: 'audio', src: 'a.mp3', clipBegin: '0s', clipEnd: '2.5s' },
+ *   ] }],
+ * }))
+ */
+export function createSmilTree(options: SmilBuildOptions): Root {
+  const { timeline, customTests = [] } = options;
+  const [first] = timeline;
+  const body =
+    timeline.length === 1 && first?.type === 'seq'
+      ? createTimeElement(first)
+      : createElement('seq', { id: 'mseq' }, timeline.map(createTimeElement));
+
+  const head = createElement('head', {}, [
+    createElement('meta', { name: 'dtb:uid', content: options.uid }),
+    createElement('meta', {
+      name: 'dtb:totalElapsedTime',
+      content: formatTime(options.totalElapsedTime ?? 0),
+    }),
+  ]);
+
+  if (customTests.length > 0) {
+    head.children.push(
+      createElement(
+        'customAttributes',
+        {},
+        customTests.map((test) =>
+          createElement('customTest', {
+            id: test.id,
+            defaultState: String(test.defaultState),
+            override: test.override,
+            bookStruct: test.bookStruct,
+          }),
+        ),
+      ),
+    );
+  }
+
+  const smil = createElement('smil', { xmlns: DAISY_NAMESPACES.smil }, [
+    head,
+    createElement('body', {}, [body]),
+  ]);
+
+  return createDocument(smil, DAISY_DOCTYPES.smil);
+}
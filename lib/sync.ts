@@ -0,0 +1,116 @@
+/**
+ * Text-to-audio synchronization index for DAISY v3 books
+ * Links DTBook element ids to the audio clips that narrate them
+ */
+
+import { getSmilPars } from '@/lib/smil';
+import type {
+  DaisyBook,
+  SmilAudioNode,
+  SmilTextNode,
+  SmilTimeNode,
+  SyncIndex,
+  SyncPoint,
+} from '@/lib/types';
+import { bisectRight, parseTime, resolveHref, splitSrc } from '@/lib/utils';
+
+/**
+ * Collect the media nodes of a given type inside a time container, in order
+ */
+function collectMedia<T extends SmilTextNode | SmilAudioNode>(
+  node: SmilTimeNode,
+  type: T['type'],
+): T[] {
+  if (node.type === type) {
+    return [node as T];
+  }
+
+  if (node.type === 'seq' || node.type === 'par') {
+    return node.children.flatMap((child) => collectMedia<T>(child, type));
+  }
+
+  return [];
+}
+
+/**
+ * Build a bidirectional text/audio sync index from all spine SMIL files
+ */
+export function buildSyncIndex(book: DaisyBook): SyncIndex {
+  const points: SyncPoint[] = [];
+
+  book.spine.forEach(({ item, smil }) => {
+    getSmilPars(smil.timeline).forEach((par) => {
+      const [text] = collectMedia<SmilTextNode>(par, 'text');
+      if (!text) return;
+
+      const { file, fragment } = splitSrc(text.src);
+      const textHref = resolveHref(item.href, file);
+
+      collectMedia<SmilAudioNode>(par, 'audio').forEach((audio) => {
+        if (!audio.clipBegin || !audio.clipEnd) return;
+
+        points.push({
+          smilHref: item.href,
+          parId: par.id,
+          textHref,
+          textId: fragment,
+          audioHref: resolveHref(item.href, audio.src),
+          begin: parseTime(audio.clipBegin),
+          end: parseTime(audio.clipEnd),
+          clip: {
+            src: audio.src,
+            clipBegin: audio.clipBegin,
+            clipEnd: audio.clipEnd,
+            duration: audio.duration,
+          },
+        });
+      });
+    });
+  });
+
+  const byText: Record<string, SyncPoint[]> = {};
+  const byAudio: Record<string, SyncPoint[]> = {};
+
+  points.forEach((point) => {
+    (byText[`${point.textHref}#${point.textId}`] ??= []).push(point);
+    (byAudio[point.audioHref] ??= []).push(point);
+  });
+
+  Object.values(byAudio).forEach((audioPoints) => {
+    audioPoints.sort((a, b) => a.begin - b.begin);
+  });
+
+  return { points, byText, byAudio };
+}
+
+/**
+ * Get the audio clips that narrate a DTBook element
+ * @param textHref Href of the DTBook file, relative to the OPF
+ * @param textId Id of the DTBook element
+ */
+export function getSyncPointsForText(
+  index: SyncIndex,
+  textHref: string,
+  textId: string,
+): SyncPoint[] {
+  return index.byText[`${textHref}#${textId}`] || [];
+}
+
+/**
+ * Get the sync point (and so the DTBook element) active at a time in an audio file
+ * @param audioHref Href of the audio file, relative to the OPF
+ * @param time Position in the audio file, in milliseconds
+ */
+export function getSyncPointAtTime(
+  index: SyncIndex,
+  audioHref: string,
+  time: number,
+): SyncPoint | undefined {
+  const audioPoints = index.byAudio[audioHref];
+  if (!audioPoints) return undefined;
+
+  const position = bisectRight(audioPoints, time, (point) => point.begin);
+  const point = audioPoints[position - 1];
+
+  return point && time < point.end ? point : undefined;
+}
@@ -0,0 +1,457 @@
+/**
+ * DTBook to Markdown and plain-text export
+ * Both formats can report the text range produced by every element with an
+ * id, so positions in the text can be linked back to SMIL
+ */
+
+import { select } from 'unist-util-select';
+import type { Element, ElementContent, Root } from 'xast';
+import type {
+  DtbookTextOptions,
+  DtbookTextResult,
+  TextOffset,
+} from '@/lib/types';
+import { getTextContent } from '@/lib/utils';
+
+/**
+ * DTBook elements whose children are rendered as separate blocks
+ */
+const CONTAINER_ELEMENTS = new Set([
+  'frontmatter',
+  'bodymatter',
+  'rearmatter',
+  'div',
+  'imggroup',
+  'linegroup',
+  'poem',
+  'prodnote',
+  'annotation',
+  'sidebar',
+  'epigraph',
+  'blockquote',
+  'dl',
+  'note',
+]);
+
+/**
+ * DTBook elements rendered as a paragraph
+ */
+const PARAGRAPH_ELEMENTS = new Set([
+  'p',
+  'doctitle',
+  'docauthor',
+  'covertitle',
+  'author',
+  'byline',
+  'dateline',
+  'bridgehead',
+  'address',
+  'caption',
+  'dt',
+  'dd',
+]);
+
+/**
+ * Inline DTBook elements wrapped in Markdown delimiters
+ */
+const MARKDOWN_DELIMITERS: Record<string, string> = {
+  em: '*',
+  strong: '**',
+  code: '`',
+};
+
+/**
+ * Render a DTBook tree as Markdown or plain text
+ */
+function renderDtbookText(
+  tree: Root,
+  markdown: boolean,
+  options: DtbookTextOptions = {},
+): DtbookTextResult {
+  const pageMarker = options.pageMarker ?? ((page) => `[Page ${page}]`);
+  const offsets: TextOffset[] = [];
+  const openOffsets: TextOffset[] = [];
+  let out = '';
+  let prefix = '';
+  let pendingBreak = 0;
+  let breakPrefix = '';
+  let pendingSpace = false;
+  let lineStart = true;
+  let inline = 0;
+  let listDepth = 0;
+
+  // Blocks are separated lazily so nothing is written after the last one
+  const requestBreak = (lines: number) => {
+    if (inline > 0) {
+      pendingSpace = true;
+    } else if (out) {
+      if (pendingBreak === 0) breakPrefix = prefix;
+      pendingBreak = Math.max(pendingBreak, lines);
+    }
+  };
+
+  const write = (value: string) => {
+    if (!value) return;
+
+    if (pendingBreak > 0) {
+      // Blank lines keep the prefix shared by both blocks (e.g. "> ")
+      const shared = breakPrefix.length < prefix.length ? breakPrefix : prefix;
+      out +=
+        pendingBreak > 1 ? `\n${shared.trimEnd()}\n${prefix}` : `\n${prefix}`;
+    } else if (!out) {
+      out = prefix;
+    } else if (pendingSpace && !lineStart) {
+      out += ' ';
+    }
+
+    openOffsets.forEach((offset) => {
+      if (offset.start === -1) offset.start = out.length;
+    });
+    openOffsets.length = 0;
+
+    out += value;
+    pendingBreak = 0;
+    pendingSpace = false;
+    lineStart = false;
+  };
+
+  const writeText = (value: string) => {
+    const collapsed = value.replace(/\s+/g, ' ');
+    const core = collapsed.trim();
+
+    if (collapsed.startsWith(' ')) pendingSpace = true;
+    if (core) {
+      write(markdown ? core.replace(/([\\`*_[\]|])/g, '\\$1') : core);
+      if (collapsed.endsWith(' ')) pendingSpace = true;
+    }
+  };
+
+  // Assigned below: elements and their children render each other
+  let renderNode: (
+    node: ElementContent,
+    depth: number,
+    parent: Element,
+  ) => void;
+
+  const renderChildren = (element: Element, depth: number) => {
+    element.children.forEach((child) => renderNode(child, depth, element));
+  };
+
+  const renderBlock = (element: Element, depth: number) => {
+    requestBreak(2);
+    renderChildren(element, depth);
+    requestBreak(2);
+  };
+
+  const renderListItem = (element: Element, depth: number, marker: string) => {
+    requestBreak(1);
+    write(marker);
+    lineStart = true;
+
+    const saved = prefix;
+    prefix += ' '.repeat(marker.length);
+    renderChildren(element, depth);
+    prefix = saved;
+    requestBreak(1);
+  };
+
+  const renderTable = (element: Element, depth: number) => {
+    const rows: Element[] = [];
+    const collectRows = (parent: Element) => {
+      parent.children.forEach((child) => {
+        if (child.type !== 'element') return;
+
+        if (child.name === 'tr') {
+          rows.push(child);
+        } else if (child.name === 'caption') {
+          renderNode(child, depth, parent);
+        } else {
+          collectRows(child);
+        }
+      });
+    };
+
+    requestBreak(2);
+    collectRows(element);
+
+    const columns = Math.max(
+      1,
+      ...rows.map(
+        (row) => row.children.filter((cell) => cell.type === 'element').length,
+      ),
+    );
+
+    rows.forEach((row, rowIndex) => {
+      requestBreak(1);
+      if (markdown) write('|');
+
+      row.children.forEach((cell, cellIndex) => {
+        if (cell.type !== 'element') return;
+
+        if (!markdown && cellIndex > 0) {
+          write('\t');
+          lineStart = true;
+        }
+
+        inline += 1;
+        pendingSpace = true;
+        renderNode(cell, depth, row);
+        inline -= 1;
+
+        if (markdown) {
+          pendingSpace = true;
+          write('|');
+        }
+      });
+
+      if (markdown && rowIndex === 0) {
+        requestBreak(1);
+        write(`|${' --- |'.repeat(columns)}`);
+      }
+    });
+
+    requestBreak(2);
+  };
+
+  const renderElement = (element: Element, depth: number, parent: Element) => {
+    const { name, attributes } = element;
+    const headingMatch = name.match(/^h([1-6])$/);
+    const levelMatch = name.match(/^level([1-6])?$/);
+
+    if (headingMatch || name === 'hd') {
+      const level = headingMatch
+        ? parseInt(headingMatch[1]!, 10)
+        : Math.min(Math.max(depth, 1), 6);
+
+      requestBreak(2);
+      if (markdown) {
+        write(`${'#'.repeat(level)} `);
+        lineStart = true;
+      }
+      renderChildren(element, depth);
+      requestBreak(2);
+      return;
+    }
+
+    if (levelMatch) {
+      renderBlock(element, parseInt(levelMatch[1] || String(depth + 1), 10));
+      return;
+    }
+
+    if (PARAGRAPH_ELEMENTS.has(name)) {
+      requestBreak(2);
+      if (markdown && name === 'dt') {
+        write('**');
+        renderChildren(element, depth);
+        write('**');
+      } else {
+        renderChildren(element, depth);
+      }
+      requestBreak(2);
+      return;
+    }
+
+    if (markdown && name === 'note' && attributes.id) {
+      requestBreak(2);
+      write(`[^${attributes.id}]: `);
+      lineStart = true;
+      inline += 1;
+      renderChildren(element, depth);
+      inline -= 1;
+      requestBreak(2);
+      return;
+    }
+
+    if (
+      markdown &&
+      (name === 'sidebar' || name === 'blockquote' || name === 'epigraph')
+    ) {
+      requestBreak(2);
+      const saved = prefix;
+      prefix += '> ';
+      renderChildren(element, depth);
+      prefix = saved;
+      requestBreak(2);
+      return;
+    }
+
+    if (CONTAINER_ELEMENTS.has(name)) {
+      renderBlock(element, depth);
+      return;
+    }
+
+    switch (name) {
+      case 'pagenum': {
+        const marker = pageMarker(getTextContent(element).trim());
+        const block =
+          CONTAINER_ELEMENTS.has(parent.name) ||
+          /^level[1-6]?$/.test(parent.name) ||
+          parent.name === 'book';
+
+        if (block) requestBreak(2);
+        else pendingSpace = true;
+        write(marker);
+        if (block) requestBreak(2);
+        else pendingSpace = true;
+        return;
+      }
+      case 'list': {
+        const lines = listDepth > 0 ? 1 : 2;
+
+        requestBreak(lines);
+        listDepth += 1;
+        renderChildren(element, depth);
+        listDepth -= 1;
+        requestBreak(lines);
+        return;
+      }
+      case 'li': {
+        const items = parent.children.filter(
+          (child) => child.type === 'element' && child.name === 'li',
+        );
+
+        renderListItem(
+          element,
+          depth,
+          parent.name === 'list' && parent.attributes.type === 'ol'
+            ? `${items.indexOf(element) + 1}. `
+            : '- ',
+        );
+        return;
+      }
+      case 'table':
+        renderTable(element, depth);
+        return;
+      case 'line':
+        requestBreak(1);
+        renderChildren(element, depth);
+        if (markdown) out += '  ';
+        requestBreak(1);
+        return;
+      case 'br':
+        if (markdown && inline === 0) out += '  ';
+        requestBreak(1);
+        return;
+      case 'img': {
+        const alt = attributes.alt || '';
+
+        if (markdown) {
+          write(
+            `![${alt.replace(/([\\[\]])/g, '\\$1')}](${attributes.src || ''})`,
+          );
+        } else {
+          writeText(alt);
+        }
+        return;
+      }
+      case 'noteref':
+      case 'annoref': {
+        const idref = (attributes.idref || '').replace(/^#/, '');
+
+        if (markdown) {
+          write(`[^${idref}]`);
+        } else {
+          write('[');
+          renderChildren(element, depth);
+          write(']');
+        }
+        return;
+      }
+      case 'a':
+        if (markdown && attributes.href) {
+          write('[');
+          renderChildren(element, depth);
+          write(`](${attributes.href})`);
+        } else {
+          renderChildren(element, depth);
+        }
+        return;
+      default:
+        if (markdown && MARKDOWN_DELIMITERS[name]) {
+          write(MARKDOWN_DELIMITERS[name]);
+          renderChildren(element, depth);
+          write(MARKDOWN_DELIMITERS[name]);
+        } else {
+          renderChildren(element, depth);
+        }
+    }
+  };
+
+  renderNode = (node, depth, parent) => {
+    if (node.type === 'text' || node.type === 'cdata') {
+      writeText(node.value);
+      return;
+    }
+    if (node.type !== 'element') return;
+
+    const { id } = node.attributes;
+    const offset =
+      options.offsets && id ? { id, start: -1, end: -1 } : undefined;
+
+    if (offset) {
+      offsets.push(offset);
+      openOffsets.push(offset);
+    }
+
+    renderElement(node, depth, parent);
+
+    if (offset) {
+      if (offset.start === -1) {
+        offset.start = out.length;
+        openOffsets.splice(openOffsets.indexOf(offset), 1);
+      }
+      offset.end = out.length;
+    }
+  };
+
+  const book = select('element[name=book]', tree) as Element | undefined;
+
+  if (book) renderChildren(book, 0);
+
+  return options.offsets ? { text: out, offsets } : { text: out };
+}
+
+/**
+ * Export a DTBook tree as Markdown
+ * Levels and headings become ATX headings, lists and tables their Markdown
+ * forms, em/strong emphasis, noterefs and notes footnotes, sidebars
+ * blockquotes and pagenum elements page markers
+ * @param tree DTBook tree, e.g. the `tree` returned by parseDtb
+ */
+export function dtbookToMarkdown(
+  tree: Root,
+  options?: DtbookTextOptions,
+): DtbookTextResult {
+  return renderDtbookText(tree, true, options);
+}
+
+/**
+ * Export a DTBook tree as plain text: one paragraph per block, list markers,
+ * tab-separated table cells and page markers
+ * @param tree DTBook tree, e.g. the `tree` returned by parseDtb
+ */
+export function dtbookToText(
+  tree: Root,
+  options?: DtbookTextOptions,
+): DtbookTextResult {
+  return renderDtbookText(tree, false, options);
+}
+
+/**
+ * Find the innermost element whose text contains an offset
+ * @param offsets Offsets returned with `{ offsets: true }`
+ */
+export function findElementIdAtOffset(
+  offsets: TextOffset[],
+  offset: number,
+): string | undefined {
+  let found: TextOffset | undefined;
+
+  offsets.forEach((range) => {
+    if (range.start <= offset && offset < range.end) {
+      found = range;
+    }
+  });
+
+  return found?.id;
+}
@@ -0,0 +1,192 @@
+/**
+ * Global book timeline for DAISY v3 books
+ * Converts between elapsed book time and SMIL/audio positions
+ */
+
+import type { Root } from 'xast';
+import { updateOpfMetadataFromTree } from '@/lib/opf';
+import {
+  getSmilDurationFromTree,
+  updateSmilMetadataFromTree,
+} from '@/lib/smil';
+import type {
+  BookTimeline,
+  DaisyBook,
+  SmilTimeNode,
+  TimelineEntry,
+  TimelinePosition,
+} from '@/lib/types';
+import { bisectRight, formatTime, parseTime, resolveHref } from '@/lib/utils';
+
+/**
+ * Build the global timeline of a book from the spine order and clip durations
+ * The children of a seq play one after the other and those of a par at the
+ * same time, so a par lasts as long as its longest child
+ */
+export function buildBookTimeline(book: DaisyBook): BookTimeline {
+  const entries: TimelineEntry[] = [];
+  const starts: Record<string, number> = {};
+  const ends: Record<string, number> = {};
+
+  // Returns the duration of the node
+  const walk = (
+    node: SmilTimeNode,
+    smilHref: string,
+    start: number,
+    parId?: string,
+  ): number => {
+    let duration = 0;
+
+    if (node.type === 'seq') {
+      node.children.forEach((child) => {
+        duration += walk(child, smilHref, start + duration, parId);
+      });
+    } else if (node.type === 'par') {
+      node.children.forEach((child) => {
+        duration = Math.max(duration, walk(child, smilHref, start, node.id));
+      });
+    } else if (node.type === 'audio' && node.clipBegin && node.clipEnd) {
+      duration = node.duration ?? 0;
+      entries.push({
+        smilHref,
+        parId,
+        audioHref: resolveHref(smilHref, node.src),
+        clipBegin: parseTime(node.clipBegin),
+        duration,
+        start,
+      });
+    }
+
+    if (node.id && starts[`${smilHref}#${node.id}`] === undefined) {
+      starts[`${smilHref}#${node.id}`] = start;
+      ends[`${smilHref}#${node.id}`] = start + duration;
+    }
+
+    return duration;
+  };
+
+  let elapsed = 0;
+  book.spine.forEach(({ item, smil }) => {
+    starts[item.href] = elapsed;
+    elapsed += walk(smil.timeline, item.href, elapsed);
+    ends[item.href] = elapsed;
+  });
+
+  // Clips of nested seqs in a par can start before those of a previous child
+  entries.sort((a, b) => a.start - b.start);
+
+  return { entries, duration: elapsed, starts, ends };
+}
+
+/**
+ * Find the clip playing at a global book position
+ * Uses binary search, so seeking is logarithmic in the number of clips
+ * @param time Elapsed time from the start of the book, in milliseconds
+ */
+export function seekBookTimeline(
+  timeline: BookTimeline,
+  time: number,
+): TimelinePosition | undefined {
+  if (time < 0 || time >= timeline.duration) return undefined;
+
+  // Zero-length clips share their start with the next clip, so the last
+  // entry starting at or before the time is the one playing
+  const index = bisectRight(timeline.entries, time, (entry) => entry.start);
+  const entry = timeline.entries[index - 1];
+
+  if (!entry) return undefined;
+
+  return { entry, audioOffset: entry.clipBegin + (time - entry.start) };
+}
+
+/**
+ * Convert a SMIL position back to a global book position
+ * @param smilHref Manifest href of the SMIL file
+ * @param id Id of a SMIL element (par, seq, ...); omit for the start of the file
+ * @param audioOffset Position inside the audio file of one of the element's
+ * clips, in milliseconds
+ * @returns Elapsed time from the start of the book, in milliseconds
+ */
+export function getTimelineTime(
+  timeline: BookTimeline,
+  smilHref: string,
+  id?: string,
+  audioOffset?: number,
+): number | undefined {
+  const key = id ? `${smilHref}#${id}` : smilHref;
+  const start = timeline.starts[key];
+  if (start === undefined) return undefined;
+  if (audioOffset === undefined) return start;
+
+  // The clip of the element that plays the offset, else its first clip
+  const end = timeline.ends[key] ?? start;
+  const clips = timeline.entries.filter(
+    (entry) =>
+      entry.smilHref === smilHref &&
+      entry.start >= start &&
+      (entry.start < end || entry.start === start),
+  );
+  const entry =
+    clips.find(
+      (clip) =>
+        audioOffset >= clip.clipBegin &&
+        audioOffset < clip.clipBegin + clip.duration,
+    ) ?? clips[0];
+  if (!entry) return start;
+
+  const offset = Math.min(
+    Math.max(audioOffset - entry.clipBegin, 0),
+    entry.duration,
+  );
+
+  return entry.start + offset;
+}
+
+/**
+ * Get the elapsed time at every NCX navigation point, keyed by navPoint id
+ * Useful for showing start times in chapter lists
+ */
+export function getNavPointTimes(
+  book: DaisyBook,
+  timeline: BookTimeline,
+): Record<string, number> {
+  const times: Record<string, number> = {};
+
+  book.navLinks.forEach(({ navPoint, smilHref, fragment }) => {
+    const time = getTimelineTime(timeline, smilHref, fragment || undefined);
+
+    if (time !== undefined) {
+      times[navPoint.id] = time;
+    }
+  });
+
+  return times;
+}
+
+/**
+ * Recompute dtb:totalElapsedTime of every SMIL file and dtb:totalTime of the OPF (in-place)
+ * Durations are summed from the actual audio clips, so the values stay correct
+ * after clips were edited with updateAudioTimestampsById
+ * @param opfTree XML tree of the OPF file
+ * @param smilTrees XML trees of the SMIL files, in spine order
+ * @returns The recomputed values in milliseconds
+ */
+export function updateTotalTimesFromTrees(
+  opfTree: Root,
+  smilTrees: Root[],
+): { totalTime: number; totalElapsedTimes: number[] } {
+  const totalElapsedTimes: number[] = [];
+  let elapsed = 0;
+
+  smilTrees.forEach((smilTree) => {
+    totalElapsedTimes.push(elapsed);
+    updateSmilMetadataFromTree(smilTree, {
+      'dtb:totalElapsedTime': formatTime(elapsed),
+    });
+    elapsed += getSmilDurationFromTree(smilTree);
+  });
+
+  updateOpfMetadataFromTree(opfTree, { 'dtb:totalTime': formatTime(elapsed) });
+
+  return { totalTime: elapsed, totalElapsedTimes };
+}
@@ -3,7 +3,8 @@
  * According to DAISY 3 specifications with file-type-specific metadata
  */
 
-import type { Root } from 'xast';
+import type { Nodes, Root } from 'xast';
+import type { DaisyError } from '@/lib/errors';
 
 /**
  * Base metadata interface for all DAISY v3 files
@@ -14,6 +15,102 @@ export interface BaseMetadata {
   [key: string]: string | undefined;
 }
 
+/**
+ * Stable codes identifying the kind of a DaisyError
+ */
+export type DaisyErrorCode =
+  | 'xml-syntax'
+  | 'missing-root'
+  | 'missing-element'
+  | 'missing-attribute'
+  | 'invalid-value'
+  | 'unresolved-reference'
+  | 'duplicate-id';
+
+/**
+ * Location and cause of a DaisyError
+ */
+export interface DaisyErrorOptions {
+  /** Name of the file being parsed */
+  fileName?: string;
+  /** Offending node, whose start position gives the line and column */
+  node?: Nodes;
+  /** Line, when there is no node (e.g. XML syntax errors) */
+  line?: number;
+  /** Column, when there is no node */
+  column?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Options of the DAISY v3 parsers
+ */
+export interface ParseOptions {
+  /** Name of the file, reported by the errors thrown and the warnings */
+  fileName?: string;
+  /**
+   * Throw a DaisyError on the first spec violation instead of recovering
+   * from it (lenient mode, the default)
+   */
+  strict?: boolean;
+}
+
+/**
+ * A fallback applied by a parser
+ */
+export interface ParseWarning {
+  /** Stable code of the problem, as for a DaisyError */
+  code: DaisyErrorCode;
+  /** Description of the problem with its location */
+  message: string;
+  /** What the parser used instead, e.g. 'playOrder 0' */
+  fallback: string;
+  /** Name of the file being parsed */
+  fileName?: string;
+  /** 1-indexed line of the offending node */
+  line?: number;
+  /** 1-indexed column of the offending node */
+  column?: number;
+}
+
+/**
+ * Class of a DaisyError, created from its reason and location
+ */
+export type DaisyErrorClass = new (
+  reason: string,
+  options?: DaisyErrorOptions,
+) => DaisyError;
+
+/**
+ * State of a parser: its mode and the fallbacks applied so far
+ */
+export interface ParseContext {
+  /** Name of the file being parsed */
+  fileName?: string;
+  /** Whether spec violations are thrown */
+  strict: boolean;
+  /** Fallbacks applied so far */
+  warnings: ParseWarning[];
+  /**
+   * Report a spec violation: throw it in strict mode, otherwise record the
+   * fallback applied
+   */
+  reject(
+    ErrorClass: DaisyErrorClass,
+    reason: string,
+    fallback: string,
+    node?: Nodes,
+  ): void;
+  /** Record a fallback for content allowed by the spec, in both modes */
+  warn(
+    ErrorClass: DaisyErrorClass,
+    reason: string,
+    fallback: string,
+    node?: Nodes,
+  ): void;
+}
+
 /**
  * OPF file metadata containing Dublin Core and DTB-specific elements
  * Based on DAISY 3 Package File specification section 3.2
@@ -109,6 +206,36 @@ export interface ManifestItem {
 export interface SpineItem {
   /** Reference to a manifest item ID */
   idref: string;
+  /** False when the itemref has linear="no" (skippable, out of the reading order) */
+  linear?: boolean;
+}
+
+/**
+ * Dublin Core element with attributes, e.g. a dc:Creator with a role
+ */
+export interface DcElementInput {
+  /** Text content of the element */
+  value: string;
+  /** Attributes such as role, file-as, scheme or event */
+  attributes?: Record<string, string>;
+}
+
+/**
+ * Dublin Core element of an OPF file with its refinements
+ */
+export interface DcMetadataEntry extends DcElementInput {
+  /** Attributes as written, without namespace declarations */
+  attributes: Record<string, string>;
+  /** Element id */
+  id?: string;
+  /** MARC relator code of a dc:Creator or dc:Contributor, e.g. "aut" */
+  role?: string;
+  /** Sortable form of a name (file-as) */
+  fileAs?: string;
+  /** Scheme of a dc:Identifier, e.g. "ISBN" */
+  scheme?: string;
+  /** Event of a dc:Date, e.g. "publication" */
+  event?: string;
 }
 
 /**
@@ -117,10 +244,39 @@ export interface SpineItem {
 export interface OpfData {
   /** Metadata extracted from the OPF file */
   metadata: OpfMetadata;
+  /** Dublin Core elements keyed by lowercase name (title, creator, ...), in document order */
+  dcMetadata: Record<string, DcMetadataEntry[]>;
+  /** dc:Identifier referenced by the package unique-identifier */
+  uniqueIdentifier?: DcMetadataEntry;
   /** List of all files referenced in the manifest */
   manifest: ManifestItem[];
   /** Ordered list of SMIL files defining the reading sequence */
   spine: SpineItem[];
+  /** Fallbacks applied by parseOpf */
+  warnings: ParseWarning[];
+}
+
+/**
+ * Content of an OPF package created from scratch
+ */
+export interface OpfBuildOptions {
+  /**
+   * Dublin Core metadata keyed by element name without prefix (title or
+   * Title for dc:Title); arrays repeat the element. dc:Identifier is required,
+   * dc:Format defaults to "ANSI/NISO Z39.86-2005"
+   */
+  dcMetadata: Record<
+    string,
+    string | DcElementInput | (string | DcElementInput)[]
+  >;
+  /** x-metadata meta elements, e.g. { 'dtb:multimediaType': 'audioNCX' } */
+  xMetadata?: Record<string, string>;
+  /** Manifest items; the media type is inferred from the href when missing */
+  manifest: (Omit<ManifestItem, 'mediaType'> & { mediaType?: string })[];
+  /** Spine itemrefs as manifest ids or spine items */
+  spine: (string | SpineItem)[];
+  /** Id of the dc:Identifier referenced by unique-identifier (default: uid) */
+  uniqueIdentifier?: string;
 }
 
 /**
@@ -137,6 +293,71 @@ export interface NavPoint {
   src: string;
   /** Play order number for sequential navigation */
   playOrder: number;
+  /** Id of the enclosing navigation point (undefined at the top level) */
+  parentId?: string;
+}
+
+/**
+ * Navigation point in the hierarchical navMap tree
+ */
+export interface NavTreeNode extends NavPoint {
+  /** Nested navigation points in document order */
+  children: NavTreeNode[];
+}
+
+/**
+ * Type of a print page in the NCX pageList
+ */
+export type PageTargetType = 'front' | 'normal' | 'special';
+
+/**
+ * Represents a print page target in the NCX pageList
+ */
+export interface PageTarget {
+  /** Unique identifier for the page target */
+  id: string;
+  /** Page type: front matter, normal (arabic numbered) or special */
+  type: PageTargetType;
+  /** Page value (numeric for normal pages, e.g. "123") */
+  value?: string;
+  /** Page label as displayed (e.g. "123" or "xii") */
+  label: string;
+  /** Reference to content (usually SMIL file with fragment) */
+  src: string;
+  /** Play order number for sequential navigation */
+  playOrder: number;
+  /** Class attribute of the page target */
+  class?: string;
+}
+
+/**
+ * Represents a navigation target inside an NCX navList
+ */
+export interface NavTarget {
+  /** Unique identifier for the navigation target */
+  id: string;
+  /** Navigation label/title */
+  label: string;
+  /** Reference to content (usually SMIL file with fragment) */
+  src: string;
+  /** Play order number for sequential navigation */
+  playOrder: number;
+  /** Class attribute of the navigation target (e.g. "note", "sidebar") */
+  class?: string;
+}
+
+/**
+ * Represents a navList (notes, sidebars, figures, ...) in the NCX
+ */
+export interface NavList {
+  /** Identifier of the navList */
+  id?: string;
+  /** Class attribute of the navList (e.g. "note", "sidebar", "figure") */
+  class?: string;
+  /** Heading label of the navList */
+  label: string;
+  /** Navigation targets in document order */
+  navTargets: NavTarget[];
 }
 
 /**
@@ -147,8 +368,56 @@ export interface NcxData {
   metadata: NcxMetadata;
   /** Flat list of navigation points with level information */
   navPoints: NavPoint[];
+  /** Top-level navigation points with their nested children */
+  navTree: NavTreeNode[];
+  /** Print page targets from the pageList */
+  pageTargets: PageTarget[];
+  /** Additional navigation lists (notes, sidebars, figures, ...) */
+  navLists: NavList[];
   /** Document title from NCX head */
   docTitle?: string;
+  /** Fallbacks applied by parseNcx */
+  warnings: ParseWarning[];
+}
+
+/**
+ * Navigation point of an NCX created from scratch
+ */
+export interface NavPointInput
+  extends Omit<NavPoint, 'level' | 'playOrder' | 'parentId'> {
+  /** Class attribute, e.g. "level1" */
+  class?: string;
+  /** Play order (default: numbered in order of appearance) */
+  playOrder?: number;
+  /** Nested navigation points */
+  children?: NavPointInput[];
+}
+
+/**
+ * Content of an NCX created from scratch
+ * Entries without playOrder are numbered in order of appearance (navMap,
+ * pageList, then navLists); entries pointing to the same src share it
+ */
+export interface NcxBuildOptions {
+  /** Value of dtb:uid, the dc:Identifier of the book */
+  uid: string;
+  /** Document title */
+  title: string;
+  /** Document authors */
+  authors?: string[];
+  /** Language of the NCX (xml:lang) */
+  lang?: string;
+  /** Top-level navigation points */
+  navPoints: NavPointInput[];
+  /** Print page targets */
+  pageTargets?: (Omit<PageTarget, 'type' | 'playOrder'> & {
+    type?: PageTargetType;
+    playOrder?: number;
+  })[];
+  /** Additional navigation lists */
+  navLists?: (Omit<NavList, 'navTargets'> & {
+    navTargets: (Omit<NavTarget, 'playOrder'> & { playOrder?: number })[];
+  })[];
 }
 
 /**
@@ -165,6 +434,118 @@ export interface AudioClip {
   duration?: number;
 }
 
+/**
+ * Attributes shared by every node of the SMIL timeline
+ */
+export interface SmilNodeAttributes {
+  /** Element id */
+  id?: string;
+  /** Class attribute (e.g. "pagenum", "note") */
+  class?: string;
+  /** Id of the customTest controlling whether this node is rendered */
+  customTest?: string;
+  /** SMIL end attribute */
+  end?: string;
+  /** SMIL fill attribute ("remove", "freeze", ...) */
+  fill?: string;
+  /** SMIL dur attribute */
+  dur?: string;
+}
+
+/**
+ * Text reference into the DTBook
+ */
+export interface SmilTextNode extends SmilNodeAttributes {
+  type: 'text';
+  /** Reference to a DTBook element, e.g. "book.xml#dtb1" */
+  src: string;
+}
+
+/**
+ * Audio clip played by the timeline
+ */
+export interface SmilAudioNode extends SmilNodeAttributes {
+  type: 'audio';
+  /** Source audio file path */
+  src: string;
+  /** Start time in the audio file */
+  clipBegin?: string;
+  /** End time in the audio file */
+  clipEnd?: string;
+  /** Duration in milliseconds calculated from clipEnd - clipBegin */
+  duration?: number;
+}
+
+/**
+ * Image displayed by the timeline
+ */
+export interface SmilImageNode extends SmilNodeAttributes {
+  type: 'img';
+  /** Source image path */
+  src: string;
+}
+
+/**
+ * Media child of a seq or par
+ */
+export type SmilMediaNode = SmilTextNode | SmilAudioNode | SmilImageNode;
+
+/**
+ * Time container of the SMIL timeline, holding containers and media
+ */
+export interface SmilContainerNode<Type extends 'par' | 'seq'>
+  extends SmilNodeAttributes {
+  type: Type;
+  children: (
+    | SmilContainerNode<'seq'>
+    | SmilContainerNode<'par'>
+    | SmilMediaNode
+  )[];
+}
+
+/**
+ * Parallel time container: children are rendered together
+ */
+export type SmilParNode = SmilContainerNode<'par'>;
+
+/**
+ * Sequential time container: children are rendered one after another
+ */
+export type SmilSeqNode = SmilContainerNode<'seq'>;
+
+/**
+ * Any node of the SMIL timeline
+ */
+export type SmilTimeNode = SmilSeqNode | SmilParNode | SmilMediaNode;
+
+/**
+ * Custom test declared in the SMIL head (skippable structures)
+ */
+export interface SmilCustomTest {
+  /** Id referenced by the customTest attribute of timeline nodes */
+  id: string;
+  /** Whether the structure is rendered by default */
+  defaultState: boolean;
+  /** Whether the user may override the default ("visible" or "hidden") */
+  override: string;
+  /** Book structure the test controls (e.g. "pagenumber", "note") */
+  bookStruct?: string;
+}
+
+/**
+ * Content of a SMIL file created from scratch
+ */
+export interface SmilBuildOptions {
+  /** Value of dtb:uid, the dc:Identifier of the book */
+  uid: string;
+  /** Total duration of the preceding SMIL files in milliseconds (default: 0) */
+  totalElapsedTime?: number;
+  /** Body of the SMIL file; anything but a single seq is wrapped in one */
+  timeline: SmilTimeNode[];
+  /** Custom tests for skippable structures */
+  customTests?: SmilCustomTest[];
+}
+
 /**
  * Complete structure extracted from a SMIL file
  * Key format: "smil_file_name#element_id" -> audio timing data
@@ -174,6 +555,12 @@ export interface SmilData {
   metadata: SmilMetadata;
   /** Object mapping from "smil_file_name#element_id" to audio clip data */
   elements: Record<string, AudioClip>;
+  /** Ordered timeline of the SMIL body, keeping seq nesting and every media child */
+  timeline: SmilSeqNode;
+  /** Custom tests declared in the SMIL head */
+  customTests: SmilCustomTest[];
+  /** Fallbacks applied by parseSmil */
+  warnings: ParseWarning[];
 }
 
 /**
@@ -203,12 +590,47 @@ export interface DtbMetadata extends BaseMetadata {
   format?: string;
 }
 
+/**
+ * Top-level division of a DTBook
+ */
+export type DtbMatter = 'frontmatter' | 'bodymatter' | 'rearmatter';
+
+/**
+ * A level of the DTBook outline with its nested levels
+ */
+export interface DtbSection {
+  /** Id of the level element */
+  id?: string;
+  /** Nesting depth (1 for level1) */
+  level: number;
+  /** Matter containing the section */
+  matter: DtbMatter;
+  /** Text of the first heading (h1-h6 or hd) of the level */
+  heading?: string;
+  /** Id of that heading */
+  headingId?: string;
+  /** Print page on which the section starts */
+  pageStart?: string;
+  /** Print page on which the section ends */
+  pageEnd?: string;
+  /** Nested levels */
+  children: DtbSection[];
+}
+
 /**
  * Complete structure extract from a DAISY v3 XML file
  */
 export interface DtbData {
   metadata: DtbMetadata;
   tree: Root;
+  /** Text of the frontmatter doctitle */
+  docTitle?: string;
+  /** Texts of the frontmatter docauthor elements */
+  docAuthors: string[];
+  /** Outline of the levels in document order */
+  sections: DtbSection[];
+  /** Fallbacks applied by parseDtb */
+  warnings: ParseWarning[];
 }
 
 /**
@@ -249,3 +671,380 @@ export interface Page<T = any> {
     last: string | undefined;
   };
 }
+
+/**
+ * Pluggable source of DAISY fileset resources
+ * Paths are relative to the root of the fileset and use forward slashes
+ */
+export interface ResourceReader {
+  /** Read a text resource (OPF, NCX, SMIL, DTBook) as a UTF-8 string */
+  read(path: string): Promise<string>;
+  /** Check whether a resource exists in the fileset */
+  exists(path: string): Promise<boolean>;
+}
+
+/**
+ * A spine entry of a loaded book, linking the OPF spine to its parsed SMIL file
+ */
+export interface DaisyBookSpineEntry {
+  /** Manifest item referenced by the spine itemref */
+  item: ManifestItem;
+  /** Path of the SMIL file within the fileset */
+  path: string;
+  /** Parsed SMIL file */
+  smil: SmilData;
+}
+
+/**
+ * Position in a loaded book that an NCX reference resolves to
+ */
+export interface DaisyBookSmilTarget {
+  /** Manifest href of the SMIL file the navigation point targets */
+  smilHref: string;
+  /** Fragment identifier (SMIL element id) without the leading "#" */
+  fragment: string;
+  /** Audio clip of the targeted SMIL element, if any */
+  clip?: AudioClip;
+}
+
+/**
+ * Cross-link from an NCX navigation point to its SMIL position
+ */
+export interface DaisyBookNavLink extends DaisyBookSmilTarget {
+  /** Navigation point from the NCX */
+  navPoint: NavPoint;
+}
+
+/**
+ * Cross-link from an NCX print page target to its SMIL position
+ */
+export interface DaisyBookPageLink extends DaisyBookSmilTarget {
+  /** Page target from the NCX pageList */
+  pageTarget: PageTarget;
+}
+
+/**
+ * A whole DAISY v3 book: OPF, NCX, SMIL and DTBook parsed and linked together
+ */
+export interface DaisyBook {
+  /** Path of the OPF file within the fileset */
+  opfPath: string;
+  /** Parsed OPF file */
+  opf: OpfData;
+  /** Parsed NCX file, if the manifest lists one */
+  ncx?: NcxData;
+  /** Path of the NCX file within the fileset */
+  ncxPath?: string;
+  /** Parsed DTBook file, if the manifest lists one */
+  dtb?: DtbData;
+  /** SMIL files in spine order */
+  spine: DaisyBookSpineEntry[];
+  /** Parsed SMIL files keyed by manifest href */
+  smil: Record<string, SmilData>;
+  /** NCX navigation points linked to their SMIL targets */
+  navLinks: DaisyBookNavLink[];
+}
+
+/**
+ * One text/audio synchronization point: a SMIL par linking a DTBook element to an audio clip
+ */
+export interface SyncPoint {
+  /** Manifest href of the SMIL file */
+  smilHref: string;
+  /** Id of the SMIL par element, if any */
+  parId?: string;
+  /** Href of the DTBook file, relative to the OPF */
+  textHref: string;
+  /** Id of the DTBook element (fragment of the text src) */
+  textId: string;
+  /** Href of the audio file, relative to the OPF */
+  audioHref: string;
+  /** Start of the clip in the audio file, in milliseconds */
+  begin: number;
+  /** End of the clip in the audio file, in milliseconds */
+  end: number;
+  /** Audio clip as written in the SMIL file */
+  clip: AudioClip;
+}
+
+/**
+ * Bidirectional text-to-audio synchronization index for a whole book
+ */
+export interface SyncIndex {
+  /** Sync points in playback (spine) order */
+  points: SyncPoint[];
+  /**
+   * Sync points keyed by "text_href#element_id", so that the same id in two
+   * DTBook files does not collide
+   */
+  byText: Record<string, SyncPoint[]>;
+  /** Sync points keyed by audio href, sorted by clip begin */
+  byAudio: Record<string, SyncPoint[]>;
+}
+
+/**
+ * Options for generating an NCX from a DTBook
+ */
+export interface NcxGenerationOptions {
+  /** Sync index used to point navigation targets to SMIL pars */
+  syncIndex?: SyncIndex;
+  /**
+   * Href of the DTBook relative to the OPF, used to look targets up in the
+   * sync index and when an element has no SMIL par (default: book.xml)
+   */
+  dtbHref?: string;
+  /** Value of dtb:uid (default: the DTBook dc:Identifier) */
+  uid?: string;
+  /** Document title (default: the DTBook doctitle or dc:Title) */
+  title?: string;
+}
+
+/**
+ * One audio clip placed on the global book timeline
+ */
+export interface TimelineEntry {
+  /** Manifest href of the SMIL file */
+  smilHref: string;
+  /** Id of the enclosing SMIL par element, if any */
+  parId?: string;
+  /** Href of the audio file, relative to the OPF */
+  audioHref: string;
+  /** Start of the clip in the audio file, in milliseconds */
+  clipBegin: number;
+  /** Duration of the clip in milliseconds */
+  duration: number;
+  /** Elapsed time from the start of the book to the start of this clip, in milliseconds */
+  start: number;
+}
+
+/**
+ * Global timeline of a book in spine order
+ */
+export interface BookTimeline {
+  /** Audio clips sorted by their global start time */
+  entries: TimelineEntry[];
+  /** Total duration of the book in milliseconds */
+  duration: number;
+  /** Elapsed time at the start of every SMIL element, keyed by "smil_href#element_id" */
+  starts: Record<string, number>;
+  /** Elapsed time at the end of every SMIL element, keyed like starts */
+  ends: Record<string, number>;
+}
+
+/**
+ * Result of seeking a global position on the book timeline
+ */
+export interface TimelinePosition {
+  /** Clip playing at the position */
+  entry: TimelineEntry;
+  /** Position inside the audio file, in milliseconds */
+  audioOffset: number;
+}
+
+/**
+ * Severity of a validation diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Stable codes identifying the kind of a validation diagnostic
+ */
+export type DiagnosticCode =
+  | 'parse-error'
+  | 'missing-resource'
+  | 'unresolved-spine-itemref'
+  | 'unresolved-reference'
+  | 'uid-mismatch'
+  | 'invalid-format'
+  | 'missing-metadata';
+
+/**
+ * A problem found while validating a DAISY v3 fileset
+ */
+export interface DaisyDiagnostic {
+  /** Whether the problem breaks the book or only degrades it */
+  severity: DiagnosticSeverity;
+  /** Stable code of the problem */
+  code: DiagnosticCode;
+  /** Human-readable description */
+  message: string;
+  /** Path of the file within the fileset */
+  file: string;
+  /** XPath-like path of the offending element, e.g. "/package/manifest/item[3]" */
+  path: string;
+}
+
+/**
+ * Stable codes identifying the kind of an audio integrity issue
+ */
+export type AudioIssueCode =
+  | 'empty-clip'
+  | 'clip-overlap'
+  | 'clip-gap'
+  | 'clip-out-of-order'
+  | 'elapsed-time-mismatch'
+  | 'total-time-mismatch';
+
+/**
+ * A timing problem found while auditing the audio clips of a book
+ */
+export interface AudioIssue {
+  /** Whether the problem breaks playback or only degrades it */
+  severity: DiagnosticSeverity;
+  /** Stable code of the problem */
+  code: AudioIssueCode;
+  /** Human-readable description */
+  message: string;
+  /** Manifest href of the SMIL file */
+  smilHref?: string;
+  /** Key of the par holding the offending clip ("smil_file_name#par_id"), if the par has an id */
+  clipKey?: string;
+  /** Href of the audio file, relative to the OPF */
+  audioHref?: string;
+}
+
+/**
+ * Result of auditing the audio clips of a book
+ */
+export interface AudioIntegrityReport {
+  /** Problems found, in playback order */
+  issues: AudioIssue[];
+  /** Sum of all clip durations, in milliseconds */
+  totalDuration: number;
+}
+
+/**
+ * Complete structure extracted from a DAISY 2.02 ncc.html file
+ * Shaped like NcxData so navigation code works on both generations;
+ * ncc:* and dc:* meta names are mapped to their DAISY 3 keys
+ */
+export interface NccData extends NcxData {
+  /** Metadata mapped to the DAISY 3 OPF and NCX keys */
+  metadata: OpfMetadata & NcxMetadata;
+}
+
+/**
+ * SMIL file reference from a DAISY 2.02 master.smil
+ */
+export interface MasterSmilRef {
+  /** Path of the SMIL file */
+  src: string;
+  /** Title of the section */
+  title?: string;
+  /** Identifier of the ref element */
+  id?: string;
+}
+
+/**
+ * Complete structure extracted from a DAISY 2.02 master.smil file
+ */
+export interface MasterSmilData {
+  /** Metadata mapped to the DAISY 3 keys */
+  metadata: OpfMetadata;
+  /** SMIL files in reading order */
+  refs: MasterSmilRef[];
+}
+
+/**
+ * SMIL file of a DAISY 2.02 fileset
+ */
+export interface Daisy202SmilEntry {
+  /** Path of the SMIL file, relative to the NCC */
+  href: string;
+  /** Parsed SMIL file */
+  smil: SmilData;
+}
+
+/**
+ * A whole DAISY 2.02 fileset: NCC, SMIL files in reading order and text content
+ */
+export interface Daisy202Fileset {
+  /** Parsed ncc.html */
+  ncc: NccData;
+  /** SMIL files in reading order */
+  smil: Daisy202SmilEntry[];
+  /** Parsed XHTML content documents keyed by href relative to the NCC */
+  contentDocuments: Record<string, Root>;
+}
+
+/**
+ * Result of converting a book to another format
+ */
+export interface ConversionResult {
+  /** Serialized files keyed by path, ready to be written or zipped */
+  files: Record<string, string>;
+  /** Everything that could not be mapped to the target format */
+  warnings: string[];
+}
+
+/**
+ * Options of the DTBook to HTML renderer
+ */
+export interface DtbookHtmlOptions {
+  /** Map an image src from the DTBook to the src used in HTML (default: unchanged) */
+  resolveImageSrc?: (src: string) => string;
+  /** Map a noteref/annoref idref (without "#") to the link target (default: "#idref") */
+  resolveNoteHref?: (idref: string) => string;
+}
+
+/**
+ * Range of exported text produced by a DTBook element
+ */
+export interface TextOffset {
+  /** Id of the DTBook element */
+  id: string;
+  /** Offset of the first character, in UTF-16 code units */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/**
+ * Options of the DTBook Markdown and plain-text exports
+ */
+export interface DtbookTextOptions {
+  /** Also return the text range of every element with an id */
+  offsets?: boolean;
+  /** Marker written for a pagenum (default: "[Page 12]") */
+  pageMarker?: (page: string) => string;
+}
+
+/**
+ * Text exported from a DTBook
+ */
+export interface DtbookTextResult {
+  /** Markdown or plain text */
+  text: string;
+  /** Element ranges in document order, when requested */
+  offsets?: TextOffset[];
+}
+
+/**
+ * Options of parseXml
+ */
+export interface XmlParseOptions {
+  /** Name of the file, reported by the XmlSyntaxError thrown */
+  fileName?: string;
+  /**
+   * Keep the source and the parse-time state of every node, so that
+   * toXml with preserveFormatting can copy untouched nodes
+   */
+  preserveFormatting?: boolean;
+}
+
+/**
+ * Options of toXml
+ */
+export interface XmlSerializeOptions {
+  /**
+   * Copy the nodes of a tree from parseXml with preserveFormatting that were
+   * not changed from the source byte-for-byte, keeping the doctype, processing instructions,
+   * whitespace and attribute quoting
+   */
+  preserveFormatting?: boolean;
+  /**
+   * With preserveFormatting, put inserted elements (meta, item, par, ...) on
+   * their own line with this indentation per level, e.g. 2 or '\t'
+   */
+  indent?: number | string;
+}
@@ -0,0 +1,632 @@
+/**
+ * DAISY 2.02 to DAISY v3 upgrade converter
+ * Builds OPF, NCX, SMIL and DTBook trees from a parsed 2.02 fileset
+ */
+
+import { select } from 'unist-util-select';
+import type { Element, ElementContent, Root } from 'xast';
+import { MissingElementError } from '@/lib/errors';
+import { createNcxTree } from '@/lib/ncx';
+import { createOpfTree } from '@/lib/opf';
+import { createSmilTree, getSmilPars } from '@/lib/smil';
+import type {
+  ConversionResult,
+  Daisy202Fileset,
+  NavPointInput,
+  NavTreeNode,
+  SmilTimeNode,
+} from '@/lib/types';
+import {
+  DAISY_DOCTYPES,
+  DAISY_MEDIA_TYPES,
+  DAISY_NAMESPACES,
+  createDocument,
+  createElement,
+  formatTime,
+  getTextContent,
+  parseTime,
+  resolveHref,
+  splitSrc,
+  toXml,
+} from '@/lib/utils';
+
+const OPF_HREF = 'book.opf';
+const NCX_HREF = 'book.ncx';
+const DTBOOK_HREF = 'book.xml';
+const GENERATOR = '@clc-blind/daisy-util';
+
+/**
+ * NCC metadata keys written to the OPF as Dublin Core elements
+ */
+const DC_KEYS = new Set([
+  'title',
+  'creator',
+  'subject',
+  'description',
+  'publisher',
+  'date',
+  'identifier',
+  'source',
+  'language',
+  'dc:contributor',
+  'dc:type',
+  'dc:relation',
+  'dc:coverage',
+  'dc:rights',
+]);
+
+/**
+ * NCC metadata consumed by the conversion without a direct DAISY 3 equivalent
+ */
+const CONSUMED_NCC_METADATA = new Set([
+  'ncc:pagenormal',
+  'ncc:pagefront',
+  'ncc:pagespecial',
+  'ncc:tocitems',
+  'ncc:timeinthissmil',
+]);
+
+/**
+ * DAISY 3 x-metadata keys written to the OPF
+ */
+const X_METADATA_KEYS = [
+  'dtb:multimediaType',
+  'dtb:narrator',
+  'dtb:producer',
+  'dtb:producedDate',
+  'dtb:revision',
+  'dtb:sourceDate',
+  'dtb:sourcePublisher',
+];
+
+/**
+ * XHTML elements kept under the same name in DTBook
+ */
+const DTBOOK_ELEMENTS = new Set([
+  'p',
+  'em',
+  'strong',
+  'span',
+  'div',
+  'a',
+  'img',
+  'br',
+  'table',
+  'caption',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'td',
+  'th',
+  'blockquote',
+  'sub',
+  'sup',
+  'dl',
+  'dt',
+  'dd',
+  'li',
+  'abbr',
+  'acronym',
+  'q',
+  'cite',
+  'code',
+  'kbd',
+  'samp',
+]);
+
+/**
+ * XHTML elements renamed in DTBook
+ */
+const RENAMED_ELEMENTS: Record<string, string> = {
+  b: 'strong',
+  i: 'em',
+  ul: 'list',
+  ol: 'list',
+};
+
+/**
+ * Attributes kept when converting XHTML elements to DTBook
+ */
+const DTBOOK_ATTRIBUTES = [
+  'id',
+  'class',
+  'href',
+  'src',
+  'alt',
+  'width',
+  'height',
+  'colspan',
+  'rowspan',
+];
+
+/**
+ * Required OPF metadata filled from the NCC, with the NCC name reported when
+ * it is missing
+ */
+const REQUIRED_METADATA: [key: string, nccName: string, opfName: string][] = [
+  ['title', 'dc:title', 'dc:Title'],
+  ['publisher', 'dc:publisher', 'dc:Publisher'],
+  ['date', 'dc:date', 'dc:Date'],
+  ['language', 'dc:language', 'dc:Language'],
+  ['dtb:multimediaType', 'ncc:multimediaType', 'dtb:multimediaType'],
+];
+
+/**
+ * Convert an XHTML content element to DTBook
+ * Image sources are resolved against the DTBook and collected in images
+ * Returns the converted nodes (unmapped elements are unwrapped)
+ */
+function convertContentNode(
+  node: ElementContent,
+  href: string,
+  warnings: string[],
+  images: Set<string>,
+): ElementContent[] {
+  if (node.type === 'text') return [node];
+  if (node.type !== 'element') return [];
+
+  const children = node.children.flatMap((child) =>
+    convertContentNode(child, href, warnings, images),
+  );
+  const className = node.attributes.class || '';
+  const pageMatch = className.match(/^page-(normal|front|special)$/);
+
+  if (pageMatch) {
+    return [
+      createElement(
+        'pagenum',
+        { id: node.attributes.id || undefined, page: pageMatch[1] },
+        [{ type: 'text', value: getTextContent(node).trim() }],
+      ),
+    ];
+  }
+
+  const name = RENAMED_ELEMENTS[node.name] || node.name;
+
+  if (!DTBOOK_ELEMENTS.has(name) && name !== 'list') {
+    warnings.push(
+      `Unmapped XHTML element <${node.name}> in ${href} was unwrapped`,
+    );
+    return children;
+  }
+
+  const attributes: Record<string, string | undefined> = {};
+  DTBOOK_ATTRIBUTES.forEach((attribute) => {
+    attributes[attribute] = node.attributes[attribute] || undefined;
+  });
+  if (name === 'list') {
+    attributes.type = node.name === 'ol' ? 'ol' : 'ul';
+  }
+  if (name === 'img' && attributes.src) {
+    attributes.src = resolveHref(href, attributes.src);
+    images.add(attributes.src);
+  }
+
+  return [createElement(name, attributes, children)];
+}
+
+/**
+ * Find the first element with a given name
+ */
+function findElement(node: Root | Element, name: string): Element | undefined {
+  let found: Element | undefined;
+
+  node.children.some((child) => {
+    if (child.type !== 'element') return false;
+
+    found = child.name === name ? child : findElement(child, name);
+    return found !== undefined;
+  });
+
+  return found;
+}
+
+/**
+ * Build the DTBook bodymatter from XHTML content documents
+ * Headings h1-h6 open nested level1-level6 elements
+ */
+function buildBodymatter(
+  fileset: Daisy202Fileset,
+  contentHrefs: string[],
+  warnings: string[],
+  images: Set<string>,
+): Element {
+  const bodymatter = createElement('bodymatter');
+  const stack: Element[] = [];
+
+  contentHrefs.forEach((href) => {
+    const document = fileset.contentDocuments[href];
+    const body = document && findElement(document, 'body');
+    if (!body) return;
+
+    body.children.forEach((child) => {
+      if (child.type !== 'element') return;
+
+      const headingMatch = child.name.match(/^h([1-6])$/);
+      if (headingMatch) {
+        const level = parseInt(headingMatch[1]!, 10);
+        while (stack.length >= level) stack.pop();
+
+        while (stack.length < level) {
+          const levelElement = createElement(`level${stack.length + 1}`);
+          (stack[stack.length - 1] || bodymatter).children.push(levelElement);
+          stack.push(levelElement);
+        }
+      }
+
+      if (stack.length === 0) {
+        const levelElement = createElement('level1');
+        bodymatter.children.push(levelElement);
+        stack.push(levelElement);
+      }
+
+      const converted = headingMatch
+        ? [
+            createElement(
+              child.name,
+              { id: child.attributes.id || undefined },
+              child.children.flatMap((node) =>
+                convertContentNode(node, href, warnings, images),
+              ),
+            ),
+          ]
+        : convertContentNode(child, href, warnings, images);
+
+      stack[stack.length - 1]!.children.push(...converted);
+    });
+  });
+
+  return bodymatter;
+}
+
+/**
+ * Collect the stylesheets linked from the head of XHTML content documents
+ */
+function getStylesheetHrefs(
+  fileset: Daisy202Fileset,
+  contentHrefs: string[],
+): string[] {
+  const hrefs: string[] = [];
+
+  contentHrefs.forEach((href) => {
+    const document = fileset.contentDocuments[href];
+    const head = document && findElement(document, 'head');
+
+    head?.children.forEach((child) => {
+      if (
+        child.type === 'element' &&
+        child.name === 'link' &&
+        child.attributes.href &&
+        /(^|\s)stylesheet(\s|$)/i.test(child.attributes.rel || '')
+      ) {
+        const stylesheetHref = resolveHref(href, child.attributes.href);
+        if (!hrefs.includes(stylesheetHref)) hrefs.push(stylesheetHref);
+      }
+    });
+  });
+
+  return hrefs;
+}
+
+/**
+ * Add the dtb:generator meta to the head of a generated NCX or SMIL tree
+ */
+function addGenerator(tree: Root): Root {
+  const head = select('element[name=head]', tree) as Element | undefined;
+  head?.children.push(
+    createElement('meta', { name: 'dtb:generator', content: GENERATOR }),
+  );
+
+  return tree;
+}
+
+/**
+ * Convert a parsed DAISY 2.02 fileset to DAISY v3
+ * Produces an OPF, an NCX, one SMIL file per 2.02 SMIL file and, when the
+ * fileset has XHTML content documents, a DTBook. Audio, image and stylesheet
+ * files are listed in the manifest under their original paths and must be
+ * copied by the caller.
+ * @returns Serialized files keyed by path and warnings for anything that could not be mapped
+ */
+export function convertDaisy202ToDaisy3(
+  fileset: Daisy202Fileset,
+): ConversionResult {
+  const { ncc } = fileset;
+  const warnings: string[] = [];
+  const files: Record<string, string> = {};
+  const uid = ncc.metadata.identifier || ncc.metadata['dtb:uid'];
+
+  if (!uid) {
+    throw new MissingElementError(
+      'Cannot convert DAISY 2.02: the NCC has no dc:identifier',
+    );
+  }
+
+  // Content documents in the order the SMIL files first reference them
+  const contentHrefs: string[] = [];
+  fileset.smil.forEach(({ href, smil }) => {
+    getSmilPars(smil.timeline).forEach((par) => {
+      par.children.forEach((child) => {
+        if (child.type !== 'text') return;
+
+        const contentHref = resolveHref(href, child.src);
+        if (
+          fileset.contentDocuments[contentHref] &&
+          !contentHrefs.includes(contentHref)
+        ) {
+          contentHrefs.push(contentHref);
+        }
+      });
+    });
+  });
+  const hasText = contentHrefs.length > 0;
+
+  // SMIL: keep the timeline, point text to the DTBook, recompute elapsed time
+  const parIdsByTarget: Record<string, string> = {};
+  const audioHrefs = new Set<string>();
+  const imageHrefs = new Set<string>();
+  let elapsed = 0;
+
+  const convertTimeNode = (
+    node: SmilTimeNode,
+    smilHref: string,
+  ): SmilTimeNode | undefined => {
+    switch (node.type) {
+      case 'seq':
+      case 'par':
+        return {
+          ...node,
+          children: node.children
+            .map((child) => convertTimeNode(child, smilHref))
+            .filter((child): child is SmilTimeNode => !!child),
+        };
+      case 'text': {
+        const { file, fragment } = splitSrc(node.src);
+        const contentHref = resolveHref(smilHref, file);
+
+        return fileset.contentDocuments[contentHref]
+          ? { ...node, src: `${DTBOOK_HREF}#${fragment}` }
+          : undefined;
+      }
+      case 'audio':
+        audioHrefs.add(resolveHref(smilHref, node.src));
+        elapsed += node.duration ?? 0;
+        return node;
+      case 'img':
+        imageHrefs.add(resolveHref(smilHref, node.src));
+        return node;
+      default:
+        return undefined;
+    }
+  };
+
+  fileset.smil.forEach(({ href, smil }) => {
+    const totalElapsedTime = elapsed;
+
+    getSmilPars(smil.timeline).forEach((par) => {
+      if (!par.id) return;
+
+      parIdsByTarget[`${href}#${par.id}`] = par.id;
+      par.children.forEach((child) => {
+        if (child.type === 'text' && child.id) {
+          parIdsByTarget[`${href}#${child.id}`] = par.id!;
+        }
+      });
+    });
+
+    const timeline = smil.timeline.children
+      .map((child) => convertTimeNode(child, href))
+      .filter((child): child is SmilTimeNode => !!child);
+
+    files[href] = toXml(
+      addGenerator(createSmilTree({ uid, totalElapsedTime, timeline })),
+    );
+  });
+
+  const totalTime = elapsed;
+  const declaredTotal = ncc.metadata['dtb:totalTime'];
+  if (declaredTotal && Math.abs(parseTime(declaredTotal) - totalTime) > 1000) {
+    warnings.push(
+      `ncc:totalTime ${declaredTotal} differs from the clip durations (${formatTime(totalTime)}); using the clip durations`,
+    );
+  }
+
+  // NCX: NCC links point to SMIL text ids, DAISY 3 links point to pars
+  const mapNavSrc = (src: string, label: string) => {
+    const { file, fragment } = splitSrc(src);
+    const parId = parIdsByTarget[`${file}#${fragment}`];
+
+    if (!parId) {
+      warnings.push(`Could not resolve NCC link "${src}" (${label})`);
+      return src;
+    }
+
+    return `${file}#${parId}`;
+  };
+  let generatedIds = 0;
+  const getId = (id: string, prefix: string) => {
+    generatedIds += 1;
+    return id || `${prefix}-${generatedIds}`;
+  };
+
+  const convertNavNode = (node: NavTreeNode): NavPointInput => ({
+    id: getId(node.id, 'nav'),
+    class: `level${node.level}`,
+    label: node.label,
+    src: mapNavSrc(node.src, node.label),
+    children: node.children.map(convertNavNode),
+  });
+
+  files[NCX_HREF] = toXml(
+    addGenerator(
+      createNcxTree({
+        uid,
+        title: ncc.docTitle || ncc.metadata.title || '',
+        authors: ncc.metadata.creator ? [ncc.metadata.creator] : [],
+        navPoints: ncc.navTree.map(convertNavNode),
+        pageTargets: ncc.pageTargets.map((target) => ({
+          id: getId(target.id, 'page'),
+          type: target.type,
+          value: target.value,
+          label: target.label,
+          src: mapNavSrc(target.src, target.label),
+        })),
+        navLists: ncc.navLists.map((navList) => ({
+          class: navList.class,
+          label: navList.label,
+          navTargets: navList.navTargets.map((target) => ({
+            id: getId(target.id, 'target'),
+            class: target.class,
+            label: target.label,
+            src: mapNavSrc(target.src, target.label),
+          })),
+        })),
+      }),
+    ),
+  );
+
+  // DTBook from the XHTML content documents
+  const stylesheetHrefs = hasText
+    ? getStylesheetHrefs(fileset, contentHrefs)
+    : [];
+
+  if (hasText) {
+    const frontmatter = createElement('frontmatter', {}, [
+      createElement('doctitle', {}, [
+        { type: 'text', value: ncc.metadata.title || '' },
+      ]),
+    ]);
+    if (ncc.metadata.creator) {
+      frontmatter.children.push(
+        createElement('docauthor', {}, [
+          { type: 'text', value: ncc.metadata.creator },
+        ]),
+      );
+    }
+
+    const head = createElement('head', {}, [
+      createElement('meta', { name: 'dtb:uid', content: uid }),
+    ]);
+    (
+      [
+        ['title', 'dc:title', 'dc:Title'],
+        ['creator', 'dc:creator', 'dc:Creator'],
+      ] as const
+    ).forEach(([key, nccName, name]) => {
+      const content = ncc.metadata[key];
+
+      if (content) {
+        head.children.push(createElement('meta', { name, content }));
+      } else {
+        warnings.push(`NCC has no ${nccName}; the DTBook has no ${name}`);
+      }
+    });
+    head.children.push(
+      createElement('meta', { name: 'dc:Identifier', content: uid }),
+    );
+
+    const dtbook = createElement(
+      'dtbook',
+      {
+        xmlns: DAISY_NAMESPACES.dtbook,
+        version: '2005-3',
+        'xml:lang': ncc.metadata.language,
+      },
+      [
+        head,
+        createElement('book', {}, [
+          frontmatter,
+          buildBodymatter(fileset, contentHrefs, warnings, imageHrefs),
+        ]),
+      ],
+    );
+    const document = createDocument(dtbook, DAISY_DOCTYPES.dtbook);
+
+    // Stylesheets of the content documents follow the XML declaration
+    document.children.splice(
+      1,
+      0,
+      ...stylesheetHrefs.map((href) => ({
+        type: 'instruction' as const,
+        name: 'xml-stylesheet',
+        value: `type="text/css" href="${href}"`,
+      })),
+    );
+
+    files[DTBOOK_HREF] = toXml(document);
+  }
+
+  // OPF
+  const dcMetadata: Record<string, string> = { identifier: uid };
+  Object.entries(ncc.metadata).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (DC_KEYS.has(name) && name !== 'identifier' && value) {
+      dcMetadata[name.replace(/^dc:/, '')] = value;
+    }
+  });
+
+  REQUIRED_METADATA.forEach(([key, nccName, opfName]) => {
+    if (!ncc.metadata[key]) {
+      warnings.push(`NCC has no ${nccName}; the OPF has no ${opfName}`);
+    }
+  });
+
+  const multimediaContent = ['audio'];
+  if (hasText) multimediaContent.push('text');
+
+  const xMetadata: Record<string, string> = {};
+  X_METADATA_KEYS.forEach((key) => {
+    const value = ncc.metadata[key];
+    if (value) xMetadata[key] = value;
+  });
+  xMetadata['dtb:multimediaContent'] = multimediaContent.join(',');
+  xMetadata['dtb:totalTime'] = formatTime(totalTime);
+
+  Object.entries(ncc.metadata).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (
+      value &&
+      /^(ncc|dc):/.test(name) &&
+      !DC_KEYS.has(name) &&
+      !CONSUMED_NCC_METADATA.has(name)
+    ) {
+      warnings.push(`Metadata "${key}" has no DAISY 3 equivalent`);
+    }
+  });
+
+  const smilItems = fileset.smil.map(({ href }, index) => ({
+    id: `smil-${index + 1}`,
+    href,
+    mediaType: DAISY_MEDIA_TYPES.smil,
+  }));
+  const listResources = (hrefs: Iterable<string>, prefix: string) =>
+    [...hrefs].map((href, index) => ({ id: `${prefix}-${index + 1}`, href }));
+
+  files[OPF_HREF] = toXml(
+    createOpfTree({
+      dcMetadata,
+      xMetadata,
+      manifest: [
+        { id: 'opf', href: OPF_HREF, mediaType: DAISY_MEDIA_TYPES.opf },
+        { id: 'ncx', href: NCX_HREF, mediaType: DAISY_MEDIA_TYPES.ncx },
+        ...(hasText
+          ? [
+              {
+                id: 'dtbook',
+                href: DTBOOK_HREF,
+                mediaType: DAISY_MEDIA_TYPES.dtbook,
+              },
+            ]
+          : []),
+        ...smilItems,
+        ...listResources(audioHrefs, 'audio'),
+        ...listResources(imageHrefs, 'image'),
+        ...listResources(stylesheetHrefs, 'css'),
+      ],
+      spine: smilItems.map(({ id }) => id),
+    }),
+  );
+
+  return { files, warnings };
+}
@@ -2,29 +2,392 @@
  * Utility functions for DAISY v3 file parsing
  */
 
-import type { Element, Root } from 'xast';
+import type { Element, ElementContent, Root, RootContent } from 'xast';
 import { fromXml } from 'xast-util-from-xml';
 import { toXml as baseToXml } from 'xast-util-to-xml';
-import type { BaseMetadata } from '@/lib/types';
+import { InvalidValueError, XmlSyntaxError } from '@/lib/errors';
+import type {
+  BaseMetadata,
+  XmlParseOptions,
+  XmlSerializeOptions,
+} from '@/lib/types';
+
+/**
+ * State of a node when it was parsed, to tell untouched nodes from edited ones
+ */
+interface NodeSnapshot {
+  name?: string;
+  value?: string;
+  public?: string;
+  system?: string;
+  attributes?: Record<string, string | null | undefined>;
+  children?: RootContent[];
+}
+
+/**
+ * Source text of the trees parsed with preserveFormatting
+ */
+const PARSED_SOURCES = new WeakMap<Root, string>();
+
+/**
+ * Parse-time state of every node of the trees parsed with preserveFormatting
+ */
+const PARSED_NODES = new WeakMap<Root | RootContent, NodeSnapshot>();
+
+/**
+ * Record the parse-time state of a node and its descendants
+ */
+function snapshotNode(node: Root | RootContent) {
+  const snapshot: NodeSnapshot = {};
+
+  if (node.type === 'element') {
+    snapshot.name = node.name;
+    snapshot.attributes = { ...node.attributes };
+  } else if (node.type === 'instruction') {
+    snapshot.name = node.name;
+    snapshot.value = node.value;
+  } else if (node.type === 'doctype') {
+    snapshot.name = node.name;
+    snapshot.public = node.public;
+    snapshot.system = node.system;
+  } else if (node.type !== 'root') {
+    snapshot.value = node.value;
+  }
+
+  if (node.type === 'root' || node.type === 'element') {
+    snapshot.children = [...node.children];
+    node.children.forEach(snapshotNode);
+  }
+
+  PARSED_NODES.set(node, snapshot);
+}
 
 /**
  * Parse XML content into an xast tree
+ * Only with `preserveFormatting` are the source and node states kept for toXml
+ * @param options File name reported by the XmlSyntaxError thrown, or options
  */
-export function parseXml(xmlContent: string): Root {
+export function parseXml(
+  xmlContent: string,
+  options?: string | XmlParseOptions,
+): Root {
+  const { fileName, preserveFormatting } =
+    typeof options === 'string' ? { fileName: options } : (options ?? {});
+  let tree: Root;
+
   try {
-    return fromXml(xmlContent);
+    tree = fromXml(xmlContent);
   } catch (error) {
-    throw new Error(
-      `Invalid XML content: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    );
+    // The position is on the VFileMessage, the details on its cause
+    const { line, column, cause } = error as {
+      line?: number | null;
+      column?: number | null;
+      cause?: unknown;
+    };
+    const detail = cause instanceof Error ? cause : error;
+    const reason =
+      detail instanceof Error
+        ? detail.message
+            .split('\n')[0]!
+            .replace(/ \(line \d+, column \d+\)$/, '')
+        : 'Unknown error';
+
+    throw new XmlSyntaxError(`Invalid XML content: ${reason}`, {
+      fileName,
+      line: line ?? undefined,
+      column: column ?? undefined,
+      cause: error,
+    });
+  }
+
+  if (preserveFormatting) {
+    PARSED_SOURCES.set(tree, xmlContent);
+    snapshotNode(tree);
+  }
+
+  return tree;
+}
+
+/**
+ * Whether the name, value or attributes of a node changed since parsing
+ * Children are compared separately
+ */
+function isNodeChanged(node: Root | RootContent): boolean {
+  const snapshot = PARSED_NODES.get(node);
+  if (!snapshot) return true;
+
+  switch (node.type) {
+    case 'root':
+      return false;
+    case 'element': {
+      const before = Object.entries(snapshot.attributes ?? {});
+      const after = Object.entries(node.attributes);
+
+      return (
+        node.name !== snapshot.name ||
+        before.length !== after.length ||
+        before.some(([key, value]) => node.attributes[key] !== value)
+      );
+    }
+    case 'instruction':
+      return node.name !== snapshot.name || node.value !== snapshot.value;
+    case 'doctype':
+      return (
+        node.name !== snapshot.name ||
+        node.public !== snapshot.public ||
+        node.system !== snapshot.system
+      );
+    default:
+      return node.value !== snapshot.value;
   }
 }
 
+/**
+ * Escape a value for XML text or a double-quoted attribute
+ */
+function escapeXml(value: string, attribute: boolean): string {
+  const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+  return attribute
+    ? escaped.replace(/"/g, '&quot;')
+    : escaped.replace(/>/g, '&gt;');
+}
+
+/**
+ * Serialize the start tag of an element, self-closing when it is empty
+ */
+function serializeStartTag(element: Element): string {
+  const attributes = Object.entries(element.attributes)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value), true)}"`)
+    .join('');
+
+  return `<${element.name}${attributes}${element.children.length > 0 ? '' : '/'}>`;
+}
+
+/**
+ * Whether an element has text content besides whitespace
+ */
+function hasMixedContent(element: Element): boolean {
+  return element.children.some(
+    (child) =>
+      (child.type === 'text' || child.type === 'cdata') && child.value.trim(),
+  );
+}
+
+/**
+ * Get the offset of the end of the start tag of an element in its source
+ */
+function getStartTagEnd(source: string, start: number): number {
+  let quote = '';
+
+  for (let index = start; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return index + 1;
+    }
+  }
+
+  return source.length;
+}
+
+/**
+ * Serialize a tree from parseXml, copying untouched nodes from the source
+ */
+function serializePreserved(tree: Root, options: XmlSerializeOptions): string {
+  const source = PARSED_SOURCES.get(tree) ?? '';
+  const unit =
+    typeof options.indent === 'number'
+      ? ' '.repeat(options.indent)
+      : options.indent;
+
+  const getOffsets = (node: Root | RootContent) => {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+
+    return PARSED_NODES.has(node) && start !== undefined && end !== undefined
+      ? { start, end }
+      : undefined;
+  };
+
+  // Indentation of the line on which an element from the source starts
+  const getLineIndent = (start: number) => {
+    const line = source.slice(source.lastIndexOf('\n', start - 1) + 1, start);
+
+    return /^[ \t]*$/.test(line) ? line : '';
+  };
+
+  // Assigned below: nodes and their children serialize each other
+  let serializeNode: (node: RootContent, indent: string) => string;
+
+  // Elements not from the source, indented when an indent unit is set
+  const serializeNew = (node: RootContent, indent: string): string => {
+    if (node.type !== 'element') return baseToXml(node);
+
+    const pretty =
+      unit !== undefined &&
+      !hasMixedContent(node) &&
+      node.children.some((child) => child.type === 'element');
+    const children = node.children
+      .filter((child) => !pretty || child.type !== 'text')
+      .map((child) =>
+        pretty
+          ? `\n${indent}${unit}${serializeNode(child, `${indent}${unit}`)}`
+          : serializeNode(child, indent),
+      )
+      .join('');
+
+    return node.children.length > 0
+      ? `${serializeStartTag(node)}${children}${pretty ? `\n${indent}` : ''}</${node.name}>`
+      : serializeStartTag(node);
+  };
+
+  const serializeChildren = (
+    parent: Root | Element,
+    contentStart: number | undefined,
+    contentEnd: number | undefined,
+    indent: string,
+  ): string => {
+    const original = PARSED_NODES.get(parent)?.children ?? [];
+    const pretty =
+      unit !== undefined &&
+      parent.type === 'element' &&
+      !hasMixedContent(parent);
+    let out = '';
+    let previousIndex = contentStart === undefined ? -2 : -1;
+    let previousEnd = contentStart;
+
+    parent.children.forEach((child, index) => {
+      const offsets = getOffsets(child);
+      const originalIndex = offsets ? original.indexOf(child) : -2;
+
+      // Text between nodes that were already adjacent, e.g. around the root
+      if (
+        offsets &&
+        originalIndex === previousIndex + 1 &&
+        previousEnd !== undefined
+      ) {
+        out += source.slice(previousEnd, offsets.start);
+      }
+
+      if (!offsets && pretty && child.type === 'element') {
+        const childIndent = `${indent}${unit}`;
+        const next = parent.children[index + 1];
+
+        out = /\n[ \t]*$/.test(out)
+          ? out.replace(/[ \t]*$/, childIndent)
+          : `${out}\n${childIndent}`;
+        out += serializeNode(child, childIndent);
+
+        if (!next) {
+          out += `\n${indent}`;
+        } else if (next.type !== 'text' || !/^[ \t]*\n/.test(next.value)) {
+          out += `\n${childIndent}`;
+        }
+      } else {
+        // Documents built from scratch get one line per top-level node
+        if (!offsets && parent.type === 'root' && unit !== undefined && out) {
+          out += '\n';
+        }
+        out += serializeNode(child, indent);
+      }
+
+      previousIndex = originalIndex;
+      previousEnd = offsets?.end;
+    });
+
+    if (
+      previousIndex === original.length - 1 &&
+      previousEnd !== undefined &&
+      contentEnd !== undefined
+    ) {
+      out += source.slice(previousEnd, contentEnd);
+    }
+
+    return out;
+  };
+
+  serializeNode = (node, indent) => {
+    const offsets = getOffsets(node);
+
+    if (!offsets) return serializeNew(node, indent);
+    if (node.type !== 'element') {
+      return isNodeChanged(node)
+        ? baseToXml(node)
+        : source.slice(offsets.start, offsets.end);
+    }
+
+    const startTagEnd = getStartTagEnd(source, offsets.start);
+    const selfClosing = startTagEnd === offsets.end;
+    const changed = isNodeChanged(node);
+
+    if (node.children.length === 0 && (changed || selfClosing)) {
+      return changed
+        ? serializeStartTag(node)
+        : source.slice(offsets.start, offsets.end);
+    }
+
+    const startTag =
+      changed || selfClosing
+        ? serializeStartTag(node)
+        : source.slice(offsets.start, startTagEnd);
+    const endTagStart = selfClosing
+      ? offsets.end
+      : source.lastIndexOf('<', offsets.end - 1);
+    const endTag =
+      selfClosing || node.name !== PARSED_NODES.get(node)?.name
+        ? `</${node.name}>`
+        : source.slice(endTagStart, offsets.end);
+
+    return `${startTag}${serializeChildren(
+      node,
+      selfClosing ? undefined : startTagEnd,
+      selfClosing ? undefined : endTagStart,
+      getLineIndent(offsets.start),
+    )}${endTag}`;
+  };
+
+  const rootOffsets = getOffsets(tree);
+
+  return serializeChildren(tree, rootOffsets?.start, rootOffsets?.end, '');
+}
+
 /**
  * Convert xast tree back to XML string
+ * With `preserveFormatting`, untouched parts of a tree parsed with
+ * `preserveFormatting` are written exactly as they were parsed
+ */
+export function toXml(tree: Root, options: XmlSerializeOptions = {}): string {
+  return options.preserveFormatting
+    ? serializePreserved(tree, options)
+    : baseToXml(tree);
+}
+
+/**
+ * Get the document element of a tree, e.g. to locate a MissingRootError
+ */
+export function getDocumentElement(tree: Root): Element | undefined {
+  return tree.children.find(
+    (child): child is Element => child.type === 'element',
+  );
+}
+
+/**
+ * Get the concatenated text content of a node and its descendants
  */
-export function toXml(tree: Root): string {
-  return baseToXml(tree);
+export function getTextContent(node: Root | Element): string {
+  return node.children
+    .map((child) => {
+      if (child.type === 'text' || child.type === 'cdata') return child.value;
+      if (child.type === 'element') return getTextContent(child);
+      return '';
+    })
+    .join('');
 }
 
 /**
@@ -34,10 +397,13 @@ export function extractMetadata(metaElements: Element[]): BaseMetadata {
   const metadata: BaseMetadata = {};
 
   metaElements.forEach((meta) => {
-    const { name, content } = meta.attributes;
+    const { name, property, refines, content } = meta.attributes;
+    // EPUB-style <meta property="...">value</meta>; refinements are skipped
+    const key = name || (refines ? undefined : property);
+    const value = content ?? getTextContent(meta).trim();
 
-    if (name && content) {
-      metadata[name] = content;
+    if (key && value) {
+      metadata[key] = value;
     }
   });
 
@@ -45,47 +411,115 @@ export function extractMetadata(metaElements: Element[]): BaseMetadata {
 }
 
 /**
- * Parse DAISY v3 time format to milliseconds
- * Supports only real DAISY v3 formats: "H:mm:ss.SSS" and "H:mm:ss"
+ * Split a qualified XML name into its prefix and local name
  */
-export function parseTime(timeStr: string): number {
-  if (!timeStr) return 0;
+export function splitQualifiedName(name: string): {
+  prefix?: string;
+  localName: string;
+} {
+  const index = name.indexOf(':');
 
-  try {
-    // DAISY v3 time formats:
-    // - "0:50:27.083" (hours:minutes:seconds.milliseconds)
-    // - "40:08:40" (hours:minutes:seconds)
-    // - "0:00:02.029" (hours:minutes:seconds.milliseconds)
-    // - "1.234s" (seconds with decimal and 's' suffix)
-
-    const timePattern = /^(\d+):(\d{2}):(\d{2})(?:\.(\d{3}))?$/;
-    const match = timeStr.match(timePattern);
-
-    if (!match) {
-      if (timeStr.endsWith('s')) {
-        const seconds = parseFloat(timeStr.slice(0, -1));
-        if (!Number.isNaN(seconds)) {
-          return Math.round(seconds * 1000);
-        }
-      }
+  return index === -1
+    ? { localName: name }
+    : { prefix: name.slice(0, index), localName: name.slice(index + 1) };
+}
 
-      return 0;
-    }
+/**
+ * Collect the namespace declarations in scope for every element of a tree
+ * Keys are prefixes, the default namespace uses the empty string
+ */
+export function getNamespaceScopes(
+  tree: Root | Element,
+): Map<Element, Record<string, string>> {
+  const scopes = new Map<Element, Record<string, string>>();
 
-    const hours = parseInt(match[1]!, 10);
-    const minutes = parseInt(match[2]!, 10);
-    const seconds = parseInt(match[3]!, 10);
-    const milliseconds = match[4] ? parseInt(match[4], 10) : 0;
+  const walk = (node: Root | Element, scope: Record<string, string>) => {
+    node.children.forEach((child) => {
+      if (child.type !== 'element') return;
 
-    // Validate ranges
-    if (minutes >= 60 || seconds >= 60 || milliseconds >= 1000) {
-      return 0;
-    }
+      const childScope = { ...scope };
+      Object.entries(child.attributes).forEach(([name, value]) => {
+        if (name === 'xmlns') childScope[''] = value ?? '';
+        if (name.startsWith('xmlns:')) childScope[name.slice(6)] = value ?? '';
+      });
+
+      scopes.set(child, childScope);
+      walk(child, childScope);
+    });
+  };
+
+  walk(tree.type === 'root' ? tree : { type: 'root', children: [tree] }, {});
+
+  return scopes;
+}
+
+/**
+ * Get the namespace URI of an element from its scope
+ * @param scopes Result of getNamespaceScopes for the tree of the element
+ */
+export function getNamespaceUri(
+  element: Element,
+  scopes: Map<Element, Record<string, string>>,
+): string | undefined {
+  const { prefix = '' } = splitQualifiedName(element.name);
+
+  return scopes.get(element)?.[prefix] || undefined;
+}
+
+const FULL_CLOCK_PATTERN = /^(\d+):([0-5]\d):([0-5]\d(?:\.\d+)?)$/;
+const PARTIAL_CLOCK_PATTERN = /^([0-5]\d):([0-5]\d(?:\.\d+)?)$/;
+const TIMECOUNT_PATTERN = /^(\d+(?:\.\d+)?)(h|min|s|ms)?$/;
+
+const TIMECOUNT_UNITS: Record<string, number> = {
+  h: 3600000,
+  min: 60000,
+  s: 1000,
+  ms: 1,
+};
+
+/**
+ * Parse a SMIL clock value to milliseconds
+ * Implements the SMIL 2.0 clock value grammar used by DAISY v3 (and the
+ * "npt=" prefix of SMIL 1.0 / DAISY 2.02):
+ * - Full clock values: "0:50:27.083", "40:08:40", "1:02:03.5"
+ * - Partial clock values: "02:33", "00:10.25"
+ * - Timecount values: "3.2h", "45min", "30s", "850ms", "12.467" (seconds)
+ * - Optional "npt=" prefix: "npt=12.3s"
+ * Fractions may have any number of digits and are rounded to the millisecond.
+ * @param options.strict Throw an error naming the value instead of returning 0
+ */
+export function parseTime(
+  timeStr: string,
+  options?: { strict?: boolean },
+): number {
+  const value = (timeStr || '').trim().replace(/^npt=/, '');
+
+  const fullClock = value.match(FULL_CLOCK_PATTERN);
+  if (fullClock) {
+    const hours = parseInt(fullClock[1]!, 10);
+    const minutes = parseInt(fullClock[2]!, 10);
+    const seconds = parseFloat(fullClock[3]!);
+    return Math.round((hours * 3600 + minutes * 60 + seconds) * 1000);
+  }
+
+  const partialClock = value.match(PARTIAL_CLOCK_PATTERN);
+  if (partialClock) {
+    const minutes = parseInt(partialClock[1]!, 10);
+    const seconds = parseFloat(partialClock[2]!);
+    return Math.round((minutes * 60 + seconds) * 1000);
+  }
+
+  const timecount = value.match(TIMECOUNT_PATTERN);
+  if (timecount) {
+    const unit = TIMECOUNT_UNITS[timecount[2] || 's']!;
+    return Math.round(parseFloat(timecount[1]!) * unit);
+  }
 
-    return (hours * 3600 + minutes * 60 + seconds) * 1000 + milliseconds;
-  } catch {
-    return 0;
+  if (options?.strict) {
+    throw new InvalidValueError(`Invalid SMIL clock value: "${timeStr}"`);
   }
+
+  return 0;
 }
 
 /**
@@ -112,3 +546,245 @@ export function formatTime(milliseconds: number): string {
 
   return `${hours}:${minutes}:${seconds}`;
 }
+
+/**
+ * Media types used by DAISY v3 filesets
+ */
+export const DAISY_MEDIA_TYPES = {
+  opf: 'text/xml',
+  ncx: 'application/x-dtbncx+xml',
+  smil: 'application/smil',
+  dtbook: 'application/x-dtbook+xml',
+  resources: 'application/x-dtbresource+xml',
+} as const;
+
+/**
+ * Check whether a manifest media type denotes a SMIL file
+ * Accepts both the DAISY v3 type and the registered "application/smil+xml"
+ */
+export function isSmilMediaType(mediaType: string): boolean {
+  return (
+    mediaType === 'application/smil' || mediaType === 'application/smil+xml'
+  );
+}
+
+/**
+ * Split a "file#fragment" reference into its file and fragment parts
+ */
+export function splitSrc(src: string): { file: string; fragment: string } {
+  const hashIndex = src.indexOf('#');
+
+  if (hashIndex === -1) {
+    return { file: src, fragment: '' };
+  }
+
+  return { file: src.slice(0, hashIndex), fragment: src.slice(hashIndex + 1) };
+}
+
+/**
+ * Resolve an href relative to the file at basePath
+ * Drops any fragment and normalizes "." and ".." segments
+ * @param basePath Path of the referencing file (e.g. "book/book.opf")
+ * @param href Reference found inside that file (e.g. "../audio/01.mp3")
+ */
+export function resolveHref(basePath: string, href: string): string {
+  const { file } = splitSrc(href);
+  const baseSegments = basePath.split('/').slice(0, -1);
+  const segments = file.startsWith('/') ? [] : baseSegments;
+
+  file.split('/').forEach((segment) => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+
+  return segments.join('/');
+}
+
+/**
+ * Binary search in an array sorted ascending by a numeric key
+ * Returns the number of items whose key is less than or equal to target
+ */
+export function bisectRight<T>(
+  items: T[],
+  target: number,
+  key: (item: T) => number,
+): number {
+  let low = 0;
+  let high = items.length;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+
+    if (key(items[middle]!) <= target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Public and system identifiers of the DAISY v3 document types
+ */
+export const DAISY_DOCTYPES = {
+  opf: {
+    name: 'package',
+    public: '+//ISBN 0-9673008-1-9//DTD OEB 1.2 Package//EN',
+    system: 'http://openebook.org/dtds/oeb-1.2/oebpkg12.dtd',
+  },
+  ncx: {
+    name: 'ncx',
+    public: '-//NISO//DTD ncx 2005-1//EN',
+    system: 'http://www.daisy.org/z3986/2005/ncx-2005-1.dtd',
+  },
+  smil: {
+    name: 'smil',
+    public: '-//NISO//DTD dtbsmil 2005-2//EN',
+    system: 'http://www.daisy.org/z3986/2005/dtbsmil-2005-2.dtd',
+  },
+  dtbook: {
+    name: 'dtbook',
+    public: '-//NISO//DTD dtbook 2005-3//EN',
+    system: 'http://www.daisy.org/z3986/2005/dtbook-2005-3.dtd',
+  },
+} as const;
+
+/**
+ * Namespace URIs used by DAISY v3 documents
+ */
+export const DAISY_NAMESPACES = {
+  opf: 'http://openebook.org/namespaces/oeb-package/1.0/',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  ncx: 'http://www.daisy.org/z3986/2005/ncx/',
+  smil: 'http://www.w3.org/2001/SMIL20/',
+  dtbook: 'http://www.daisy.org/z3986/2005/dtbook/',
+} as const;
+
+/**
+ * Namespace URIs of OPF package elements: OPF 1.2 (DAISY 3) and OPF 2.0+
+ */
+const OPF_NAMESPACE_URIS: string[] = [
+  DAISY_NAMESPACES.opf,
+  'http://www.idpf.org/2007/opf',
+];
+
+/**
+ * Check whether an element is the OPF package element of a given local name
+ * (package, manifest, item, ...), whatever its prefix
+ * Elements in no namespace or with an undeclared prefix match as well
+ * @param scopes Result of getNamespaceScopes for the tree of the element
+ */
+export function isOpfElement(
+  element: Element,
+  scopes: Map<Element, Record<string, string>>,
+  localName: string,
+): boolean {
+  const uri = getNamespaceUri(element, scopes);
+
+  return (
+    splitQualifiedName(element.name).localName === localName &&
+    (!uri || OPF_NAMESPACE_URIS.includes(uri))
+  );
+}
+
+/**
+ * Get the lowercase name of a Dublin Core element (title for dc:Title)
+ * Elements are matched by namespace URI; an undeclared dc prefix is accepted
+ * @param scopes Result of getNamespaceScopes for the tree of the element
+ */
+export function getDublinCoreName(
+  element: Element,
+  scopes: Map<Element, Record<string, string>>,
+): string | undefined {
+  const { prefix, localName } = splitQualifiedName(element.name);
+  const uri = getNamespaceUri(element, scopes);
+  const isDc = uri
+    ? uri.replace(/\/?$/, '/') === DAISY_NAMESPACES.dc
+    : prefix?.toLowerCase() === 'dc';
+
+  return isDc ? localName.toLowerCase() : undefined;
+}
+
+/**
+ * Create an xast element
+ * Attributes with undefined values are left out
+ */
+export function createElement(
+  name: string,
+  attributes: Record<string, string | undefined> = {},
+  children: ElementContent[] = [],
+): Element {
+  const definedAttributes: Record<string, string> = {};
+
+  Object.entries(attributes).forEach(([key, value]) => {
+    if (value !== undefined) {
+      definedAttributes[key] = value;
+    }
+  });
+
+  return { type: 'element', name, attributes: definedAttributes, children };
+}
+
+/**
+ * Create an xast document with an XML declaration and optional doctype
+ */
+export function createDocument(
+  root: Element,
+  doctype?: { name: string; public?: string; system?: string },
+): Root {
+  const children: RootContent[] = [
+    {
+      type: 'instruction',
+      name: 'xml',
+      value: 'version="1.0" encoding="UTF-8"',
+    },
+  ];
+
+  if (doctype) {
+    children.push({ type: 'doctype', ...doctype });
+  }
+
+  children.push(root);
+
+  return { type: 'root', children };
+}
+
+/**
+ * Common file extensions mapped to their media types
+ */
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  opf: DAISY_MEDIA_TYPES.opf,
+  ncx: DAISY_MEDIA_TYPES.ncx,
+  smil: DAISY_MEDIA_TYPES.smil,
+  res: DAISY_MEDIA_TYPES.resources,
+  xml: DAISY_MEDIA_TYPES.dtbook,
+  mp3: 'audio/mpeg',
+  mp4: 'audio/mpeg4-generic',
+  m4a: 'audio/mpeg4-generic',
+  wav: 'audio/x-wav',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  css: 'text/css',
+  xsl: 'application/xslt+xml',
+  html: 'application/xhtml+xml',
+  xhtml: 'application/xhtml+xml',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Infer the DAISY v3 manifest media type of a file from its extension
+ * Returns "application/octet-stream" for unknown extensions
+ */
+export function inferMediaType(href: string): string {
+  const { file } = splitSrc(href);
+  const extension = file.slice(file.lastIndexOf('.') + 1).toLowerCase();
+
+  return MEDIA_TYPES_BY_EXTENSION[extension] || 'application/octet-stream';
+}
@@ -0,0 +1,420 @@
+/**
+ * Cross-file reference validator for DAISY v3 filesets
+ * Reports structured diagnostics instead of failing on the first problem
+ */
+
+import type { Element, Root } from 'xast';
+import type {
+  DaisyDiagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ResourceReader,
+} from '@/lib/types';
+import {
+  DAISY_MEDIA_TYPES,
+  getDublinCoreName,
+  getNamespaceScopes,
+  getTextContent,
+  isOpfElement,
+  isSmilMediaType,
+  parseXml,
+  resolveHref,
+  splitSrc,
+} from '@/lib/utils';
+
+/** Expected dc:Format value of a DAISY v3 book */
+const DAISY3_FORMAT = 'ANSI/NISO Z39.86-2005';
+
+/** Metadata required by the DAISY 3 specification, per file type */
+const REQUIRED_OPF_METADATA = [
+  'dc:Title',
+  'dc:Identifier',
+  'dc:Language',
+  'dc:Publisher',
+  'dc:Date',
+  'dc:Format',
+  'dtb:multimediaType',
+  'dtb:multimediaContent',
+  'dtb:totalTime',
+];
+const REQUIRED_NCX_METADATA = [
+  'dtb:uid',
+  'dtb:depth',
+  'dtb:totalPageCount',
+  'dtb:maxPageNumber',
+];
+const REQUIRED_SMIL_METADATA = ['dtb:uid', 'dtb:totalElapsedTime'];
+
+/**
+ * Parsed XML file of the fileset
+ */
+interface LoadedFile {
+  path: string;
+  tree: Root;
+  ids: Set<string>;
+}
+
+/**
+ * Visit every element of a tree with its XPath-like path
+ */
+function walkElements(
+  tree: Root,
+  visitor: (element: Element, path: string) => void,
+) {
+  const walk = (children: Root['children'], parentPath: string) => {
+    const totals: Record<string, number> = {};
+    const counts: Record<string, number> = {};
+
+    children.forEach((child) => {
+      if (child.type === 'element') {
+        totals[child.name] = (totals[child.name] || 0) + 1;
+      }
+    });
+
+    children.forEach((child) => {
+      if (child.type !== 'element') return;
+
+      counts[child.name] = (counts[child.name] || 0) + 1;
+      const path =
+        totals[child.name]! > 1
+          ? `${parentPath}/${child.name}[${counts[child.name]}]`
+          : `${parentPath}/${child.name}`;
+
+      visitor(child, path);
+      walk(child.children, path);
+    });
+  };
+
+  walk(tree.children, '');
+}
+
+/**
+ * Find the first element matching a test and its path
+ */
+function findElement(
+  tree: Root,
+  test: (element: Element) => boolean,
+): { element: Element; path: string } | undefined {
+  let found: { element: Element; path: string } | undefined;
+
+  walkElements(tree, (element, path) => {
+    if (!found && test(element)) {
+      found = { element, path };
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Get the key of a metadata name: Dublin Core names are lowercased
+ */
+function getMetadataKey(name: string): string {
+  return /^dc:/i.test(name) ? name.toLowerCase() : name;
+}
+
+/**
+ * Collect metadata names present in a file: <meta name> and Dublin Core
+ * elements, the latter matched by namespace and keyed in lowercase (dc:title)
+ */
+function collectMetadata(tree: Root): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  const scopes = getNamespaceScopes(tree);
+
+  walkElements(tree, (element) => {
+    const { name, content } = element.attributes;
+    const dcName = getDublinCoreName(element, scopes);
+
+    if (element.name === 'meta' && name) {
+      metadata[getMetadataKey(name)] = content || '';
+    } else if (dcName) {
+      metadata[`dc:${dcName}`] = getTextContent(element).trim();
+    }
+  });
+
+  return metadata;
+}
+
+/**
+ * Validate a DAISY v3 fileset and report every problem found
+ * Checks manifest and spine references, NCX and SMIL fragment links,
+ * dtb:uid consistency, dc:Format and required metadata
+ * @param reader Source of the fileset
+ * @param opfPath Path of the OPF file within the fileset
+ */
+export async function validateDaisyBook(
+  reader: ResourceReader,
+  opfPath: string,
+): Promise<DaisyDiagnostic[]> {
+  const diagnostics: DaisyDiagnostic[] = [];
+  const report = (
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    file: string,
+    path: string,
+  ) => {
+    diagnostics.push({ severity, code, message, file, path });
+  };
+
+  // Files are read concurrently but parsed in order, so diagnostics are too
+  const readFile = async (path: string) => ({
+    path,
+    content: (await reader.exists(path)) ? await reader.read(path) : undefined,
+  });
+  const parseFile = ({
+    path,
+    content,
+  }: {
+    path: string;
+    content?: string;
+  }): LoadedFile | undefined => {
+    if (content === undefined) return undefined;
+
+    try {
+      const tree = parseXml(content);
+      const ids = new Set<string>();
+      walkElements(tree, (element) => {
+        if (element.attributes.id) ids.add(element.attributes.id);
+      });
+
+      return { path, tree, ids };
+    } catch (error) {
+      report(
+        'error',
+        'parse-error',
+        error instanceof Error ? error.message : String(error),
+        path,
+        '/',
+      );
+      return undefined;
+    }
+  };
+
+  if (!(await reader.exists(opfPath))) {
+    report('error', 'missing-resource', 'OPF file not found', opfPath, '/');
+    return diagnostics;
+  }
+
+  const opf = parseFile(await readFile(opfPath));
+  if (!opf) return diagnostics;
+
+  const opfScopes = getNamespaceScopes(opf.tree);
+  const packageElement = findElement(opf.tree, (element) =>
+    isOpfElement(element, opfScopes, 'package'),
+  );
+  if (!packageElement) {
+    report(
+      'error',
+      'parse-error',
+      'Invalid OPF file: no package element found',
+      opfPath,
+      '/',
+    );
+    return diagnostics;
+  }
+
+  // Manifest items must exist in the fileset
+  const manifest: {
+    id: string;
+    href: string;
+    path: string;
+    mediaType: string;
+    elementPath: string;
+  }[] = [];
+  const spineRefs: { idref: string; path: string }[] = [];
+
+  walkElements(opf.tree, (element, path) => {
+    const { id, href, idref } = element.attributes;
+
+    if (isOpfElement(element, opfScopes, 'item') && href) {
+      const filePath = resolveHref(opfPath, href);
+      manifest.push({
+        id: id || '',
+        href,
+        path: filePath,
+        mediaType: element.attributes['media-type'] || '',
+        elementPath: path,
+      });
+    } else if (isOpfElement(element, opfScopes, 'itemref')) {
+      spineRefs.push({ idref: idref || '', path });
+    }
+  });
+
+  const manifestExists = await Promise.all(
+    manifest.map((item) => reader.exists(item.path)),
+  );
+  manifest.forEach((item, index) => {
+    if (!manifestExists[index]) {
+      report(
+        'error',
+        'missing-resource',
+        `Manifest item "${item.href}" does not exist in the fileset`,
+        opfPath,
+        item.elementPath,
+      );
+    }
+  });
+
+  // Spine itemrefs must resolve to manifest items
+  const manifestIds = new Set(manifest.map((item) => item.id));
+  spineRefs.forEach(({ idref, path }) => {
+    if (!manifestIds.has(idref)) {
+      report(
+        'error',
+        'unresolved-spine-itemref',
+        `Spine itemref "${idref}" does not match any manifest item`,
+        opfPath,
+        path,
+      );
+    }
+  });
+
+  // Load the NCX, SMIL and DTBook files listed in the manifest
+  const readByType = (matches: (mediaType: string) => boolean) =>
+    Promise.all(
+      manifest
+        .filter((item) => matches(item.mediaType))
+        .map((item) => readFile(item.path)),
+    );
+  const parseAll = (contents: { path: string; content?: string }[]) =>
+    contents.map(parseFile).filter((file): file is LoadedFile => !!file);
+
+  const [ncxContents, smilContents, dtbContents] = await Promise.all([
+    readByType((mediaType) => mediaType === DAISY_MEDIA_TYPES.ncx),
+    readByType(isSmilMediaType),
+    readByType((mediaType) => mediaType === DAISY_MEDIA_TYPES.dtbook),
+  ]);
+  const ncxFiles = parseAll(ncxContents);
+  const smilFiles = parseAll(smilContents);
+  const dtbFiles = parseAll(dtbContents);
+  const filesByPath = new Map(
+    [...ncxFiles, ...smilFiles, ...dtbFiles].map((file) => [file.path, file]),
+  );
+
+  // Fragment references must resolve to an id in the target file
+  const checkReference = (
+    source: LoadedFile,
+    src: string,
+    path: string,
+    elementName: string,
+  ) => {
+    const { file, fragment } = splitSrc(src);
+    const targetPath = file ? resolveHref(source.path, file) : source.path;
+    const target = filesByPath.get(targetPath);
+
+    if (!target) {
+      // Other manifest items (audio, images) are in the book but not targets
+      const isManifestItem = manifest.some((item) => item.path === targetPath);
+      report(
+        isManifestItem ? 'warning' : 'error',
+        'unresolved-reference',
+        isManifestItem
+          ? `${elementName} src "${src}" points to a manifest item that is not an NCX, SMIL or DTBook file`
+          : `${elementName} src "${src}" points to a file that is not a manifest NCX, SMIL or DTBook file`,
+        source.path,
+        path,
+      );
+    } else if (fragment && !target.ids.has(fragment)) {
+      report(
+        'error',
+        'unresolved-reference',
+        `${elementName} src "${src}" points to a missing id "${fragment}"`,
+        source.path,
+        path,
+      );
+    }
+  };
+
+  ncxFiles.forEach((ncx) => {
+    walkElements(ncx.tree, (element, path) => {
+      if (element.name === 'content' && element.attributes.src) {
+        checkReference(ncx, element.attributes.src, path, 'NCX content');
+      }
+    });
+  });
+
+  smilFiles.forEach((smil) => {
+    walkElements(smil.tree, (element, path) => {
+      if (element.name === 'text' && element.attributes.src) {
+        checkReference(smil, element.attributes.src, path, 'SMIL text');
+      }
+    });
+  });
+
+  // Metadata: required fields, dc:Format and dtb:uid consistency
+  const opfMetadata = collectMetadata(opf.tree);
+  const metadataPath =
+    findElement(opf.tree, (element) =>
+      isOpfElement(element, opfScopes, 'metadata'),
+    )?.path || packageElement.path;
+
+  const checkRequired = (
+    file: LoadedFile,
+    metadata: Record<string, string>,
+    required: string[],
+    path: string,
+  ) => {
+    required.forEach((name) => {
+      if (!metadata[getMetadataKey(name)]) {
+        report(
+          'error',
+          'missing-metadata',
+          `Required metadata "${name}" is missing`,
+          file.path,
+          path,
+        );
+      }
+    });
+  };
+
+  checkRequired(opf, opfMetadata, REQUIRED_OPF_METADATA, metadataPath);
+
+  const format = opfMetadata['dc:format'];
+  if (format && format !== DAISY3_FORMAT) {
+    report(
+      'warning',
+      'invalid-format',
+      `dc:Format is "${format}", expected "${DAISY3_FORMAT}"`,
+      opfPath,
+      metadataPath,
+    );
+  }
+
+  const uniqueIdentifier =
+    packageElement.element.attributes['unique-identifier'];
+  let uid = opfMetadata['dc:identifier'];
+  walkElements(opf.tree, (element) => {
+    if (
+      uniqueIdentifier &&
+      element.attributes.id === uniqueIdentifier &&
+      getDublinCoreName(element, opfScopes)
+    ) {
+      uid = getTextContent(element).trim();
+    }
+  });
+
+  const checkFileMetadata = (file: LoadedFile, required: string[]) => {
+    const metadata = collectMetadata(file.tree);
+    const path =
+      findElement(file.tree, (element) => element.name === 'head')?.path || '/';
+
+    checkRequired(file, metadata, required, path);
+
+    if (uid && metadata['dtb:uid'] && metadata['dtb:uid'] !== uid) {
+      report(
+        'error',
+        'uid-mismatch',
+        `dtb:uid "${metadata['dtb:uid']}" does not match the OPF identifier "${uid}"`,
+        file.path,
+        path,
+      );
+    }
+  };
+
+  ncxFiles.forEach((file) => checkFileMetadata(file, REQUIRED_NCX_METADATA));
+  smilFiles.forEach((file) => checkFileMetadata(file, REQUIRED_SMIL_METADATA));
+  dtbFiles.forEach((file) => checkFileMetadata(file, []));
+
+  return diagnostics;
+}
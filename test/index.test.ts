@@ -1,22 +1,80 @@
+import { deflateRawSync } from 'node:zlib';
 import { select, selectAll } from 'unist-util-select';
 import { describe, expect, it } from 'vitest';
 import type { Element, Root, Text } from 'xast';
 import {
+  DaisyError,
+  DuplicateIdError,
+  InvalidValueError,
+  MissingAttributeError,
+  MissingElementError,
+  MissingRootError,
   type OpfData,
+  type ResourceReader,
+  type SyncPoint,
+  UnresolvedReferenceError,
+  XmlSyntaxError,
+  addManifestItem,
+  addSpineItem,
+  buildBookTimeline,
+  buildSyncIndex,
+  checkAudioIntegrity,
+  convertDaisy202ToDaisy3,
+  createElement,
+  createMemoryReader,
+  createNcxTree,
+  createOpfTree,
+  createSmilTree,
+  createZipReader,
+  dtbookToHast,
+  dtbookToHtml,
+  dtbookToMarkdown,
+  dtbookToText,
+  exportEpub3,
   extractMetadata,
+  findElementIdAtOffset,
+  findPageTarget,
   formatTime,
+  generateNcx,
+  getEnclosingNavPoint,
+  getNavPointAncestors,
+  getNavPointTimes,
+  getNextSiblingNavPoint,
+  getPagePosition,
+  getPreviousSiblingNavPoint,
+  getSmilPars,
+  getSyncPointAtTime,
+  getSyncPointsForText,
+  getTextContent,
+  getTimelineTime,
+  loadDaisy202Fileset,
+  loadDaisyBook,
+  loadEpub3,
+  moveSpineItem,
+  parseDaisy202Smil,
   parseDtb,
+  parseEpubPackage,
+  parseMasterSmil,
+  parseNcc,
   parseNcx,
   parseOpf,
   parseSmil,
   parseTime,
   parseXml,
+  removeManifestItem,
+  removeSpineItem,
   renameFileInOpfTree,
+  resolveHref,
+  seekBookTimeline,
+  setSpineItemLinear,
+  toXml,
   updateAudioTimestampsById,
   updateDtbMetadataFromTree,
   updateNcxMetadataFromTree,
   updateOpfMetadataFromTree,
   updateSmilMetadataFromTree,
+  updateTotalTimesFromTrees,
+  validateDaisyBook,
 } from '../lib';
 import {
   paginateDaisyTree,
@@ -156,6 +214,29 @@ describe('DAISY v3 Utility Library', () => {
       expect(parseTime('not:a:time')).toBe(0);
       expect(parseTime('25:61:61')).toBe(0); // Invalid time values
     });
+
+    it('should parse the full SMIL clock value grammar', () => {
+      expect(parseTime('npt=12.3s')).toBe(12300);
+      expect(parseTime('npt=0:00:01.5')).toBe(1500);
+      expect(parseTime('850ms')).toBe(850);
+      expect(parseTime('2min')).toBe(120000);
+      expect(parseTime('1.5h')).toBe(5400000);
+      expect(parseTime('12.467')).toBe(12467);
+      expect(parseTime('02:33')).toBe(153000);
+      expect(parseTime('00:10.25')).toBe(10250);
+      expect(parseTime('0:00:01.5')).toBe(1500);
+      expect(parseTime('0:00:01.25')).toBe(1250);
+      expect(parseTime('0:00:01.23456')).toBe(1235);
+      expect(parseTime(' 0:00:02 ')).toBe(2000);
+    });
+
+    it('should throw in strict mode for invalid clock values', () => {
+      expect(() => parseTime('25:61:61', { strict: true })).toThrow(
+        'Invalid SMIL clock value: "25:61:61"',
+      );
+      expect(() => parseTime('', { strict: true })).toThrow();
+      expect(parseTime('0:00:02.029', { strict: true })).toBe(2029);
+    });
   });
 
   describe('formatTime', () => {
@@ -285,6 +366,52 @@ describe('DAISY v3 Utility Library', () => {
       expect(() => parseNcx('<root></root>')).toThrow();
       expect(() => parseSmil('<root></root>', 'test.smil')).toThrow();
     });
+
+    it('reports XML syntax errors with their file and position', () => {
+      let error: unknown;
+      try {
+        parseNcx('<ncx>\n  <docTitle></ncx>', { fileName: 'book.ncx' });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(XmlSyntaxError);
+      expect(error).toBeInstanceOf(DaisyError);
+      expect(error).toMatchObject({
+        code: 'xml-syntax',
+        fileName: 'book.ncx',
+        line: 2,
+        column: 13,
+      });
+      expect((error as DaisyError).message).toBe(
+        'Invalid XML content: Missing end tag for element docTitle (book.ncx, line 2, column 13)',
+      );
+    });
+
+    it('locates the wrong document element of a file', () => {
+      expect(() => parseOpf('<?xml version="1.0"?>\n<root/>')).toThrow(
+        expect.objectContaining({
+          name: 'MissingRootError',
+          code: 'missing-root',
+          line: 2,
+          column: 1,
+        }),
+      );
+      expect(() => parseSmil('<root/>', 'test.smil')).toThrow(
+        'Invalid SMIL file: no smil element found (test.smil, line 1, column 1)',
+      );
+    });
+
+    it('tells reference errors from duplicate ids', () => {
+      const tree = parseXml(
+        '<package>\n<manifest>\n  <item id="a" href="a.smil"/>\n</manifest>\n<spine/>\n</package>',
+      );
+
+      expect(() => addManifestItem(tree, { id: 'a', href: 'b.smil' })).toThrow(
+        expect.objectContaining({ code: 'duplicate-id', line: 3, column: 3 }),
+      );
+      expect(() => addSpineItem(tree, 'b')).toThrow(UnresolvedReferenceError);
+    });
   });
 
   // --- dtb.ts tests ---
@@ -395,6 +522,42 @@ describe('DAISY v3 Utility Library', () => {
       expect(creator).toBe('Updated Author');
       expect(dtbTotalTime).toBe('3:00:00');
     });
+
+    it('creates x-metadata in an OPF 1.2 file without one', () => {
+      const opfTree = parseXml(
+        '<package unique-identifier="uid"><metadata><dc-metadata><dc:Identifier id="uid">x</dc:Identifier></dc-metadata></metadata></package>',
+      );
+      updateOpfMetadataFromTree(opfTree, { 'dtb:totalTime': '3:00:00' });
+
+      expect(
+        select(
+          'element[name=metadata] > element[name=x-metadata] > element[name=meta]',
+          opfTree,
+        ),
+      ).toMatchObject({
+        attributes: { name: 'dtb:totalTime', content: '3:00:00' },
+      });
+      expect(
+        select('element[name=metadata] > element[name=meta]', opfTree),
+      ).toBeUndefined();
+    });
+
+    it('throws when there is no metadata element to add to', () => {
+      const opfTree = parseXml('<package><manifest/></package>');
+
+      expect(() =>
+        updateOpfMetadataFromTree(opfTree, { 'dc:Title': 'Title' }),
+      ).toThrow(MissingElementError);
+      expect(() =>
+        updateOpfMetadataFromTree(
+          opfTree,
+          { 'dc:Title': 'Title' },
+          {
+            createIfMissing: false,
+          },
+        ),
+      ).not.toThrow();
+    });
   });
 
   // --- ncx.ts tests ---
@@ -923,7 +1086,7 @@ describe('renameFileInOpfTree', () => {
     expect(chapter1Item?.attributes.href).toBe('chapter1.smil');
   });
 
-  it('renames only the first file when multiple have the same href', () => {
+  it('renames every file with the same href', () => {
     const opfXml = `<?xml version="1.0" encoding="UTF-8"?>
 <package xmlns="http://www.idpf.org/2007/opf" version="2.0">
   <manifest>
@@ -944,9 +1107,11 @@ describe('renameFileInOpfTree', () => {
       (item) => item.attributes.href === 'duplicate.txt',
     );
 
-    // Only first match is renamed (due to 'return false' in implementation)
-    expect(renamedItems).toHaveLength(1);
-    expect(duplicateItems).toHaveLength(1);
+    expect(renamedItems.map((item) => item.attributes.id)).toEqual([
+      'item1',
+      'item2',
+    ]);
+    expect(duplicateItems).toHaveLength(0);
   });
 
   it('does nothing if oldHref is not found', () => {
@@ -1135,3 +1300,2567 @@ describe('updateAudioTimestampsById', () => {
     expect(audioElement.attributes.clipEnd).toBe('0:00:06.000');
   });
 });
+
+// --- book.ts / reader.ts tests ---
+const bookFiles: Record<string, string> = {
+  'book/book.opf': `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://openebook.org/namespaces/oeb-package/1.0/" unique-identifier="uid">
+  <metadata>
+    <dc-metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:Title>Test Book</dc:Title>
+      <dc:Identifier id="uid">book-uid</dc:Identifier>
+      <dc:Language>en</dc:Language>
+      <dc:Publisher>Test Publisher</dc:Publisher>
+      <dc:Date>2024-01-01</dc:Date>
+      <dc:Format>ANSI/NISO Z39.86-2005</dc:Format>
+    </dc-metadata>
+    <x-metadata>
+      <meta name="dtb:multimediaType" content="audioFullText"/>
+      <meta name="dtb:multimediaContent" content="audio,text"/>
+      <meta name="dtb:totalTime" content="0:00:09.000"/>
+    </x-metadata>
+  </metadata>
+  <manifest>
+    <item id="opf" href="book.opf" media-type="text/xml"/>
+    <item id="ncx" href="book.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="dtb" href="book.xml" media-type="application/x-dtbook+xml"/>
+    <item id="smil1" href="part1.smil" media-type="application/smil"/>
+    <item id="smil2" href="part2.smil" media-type="application/smil"/>
+    <item id="aud1" href="audio/part1.mp3" media-type="audio/mpeg"/>
+    <item id="aud2" href="audio/part2.mp3" media-type="audio/mpeg"/>
+  </manifest>
+  <spine>
+    <itemref idref="smil1"/>
+    <itemref idref="smil2"/>
+  </spine>
+</package>`,
+  'book/book.ncx': `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="book-uid"/>
+    <meta name="dtb:depth" content="2"/>
+    <meta name="dtb:totalPageCount" content="1"/>
+    <meta name="dtb:maxPageNumber" content="1"/>
+  </head>
+  <docTitle><text>Test Book</text></docTitle>
+  <navMap>
+    <navPoint id="nav1" playOrder="1">
+      <navLabel><text>Chapter 1</text></navLabel>
+      <content src="part1.smil#par1"/>
+      <navPoint id="nav2" playOrder="2">
+        <navLabel><text>Section 1.1</text></navLabel>
+        <content src="part1.smil#par2"/>
+      </navPoint>
+    </navPoint>
+    <navPoint id="nav3" playOrder="3">
+      <navLabel><text>Chapter 2</text></navLabel>
+      <content src="part2.smil#par3"/>
+    </navPoint>
+  </navMap>
+  <pageList>
+    <navLabel><text>Pages</text></navLabel>
+    <pageTarget id="page-i" type="front" playOrder="1">
+      <navLabel><text>i</text></navLabel>
+      <content src="part1.smil#par1"/>
+    </pageTarget>
+    <pageTarget id="page-1" type="normal" value="1" playOrder="3" class="pagenum">
+      <navLabel><text>1</text></navLabel>
+      <content src="part2.smil#par4"/>
+    </pageTarget>
+  </pageList>
+  <navList class="note">
+    <navLabel><text>Notes</text></navLabel>
+    <navTarget id="note-1" playOrder="2" class="note">
+      <navLabel><text>Note 1</text></navLabel>
+      <content src="part1.smil#par2"/>
+    </navTarget>
+  </navList>
+</ncx>`,
+  'book/book.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/" version="2005-3">
+  <head>
+    <meta name="dtb:uid" content="book-uid"/>
+    <meta name="dc:Title" content="Test Book"/>
+  </head>
+  <book>
+    <bodymatter>
+      <level1 id="l1">
+        <h1 id="h1">Chapter 1</h1>
+        <p id="p1">First sentence.</p>
+      </level1>
+      <level1 id="l2">
+        <h1 id="h2">Chapter 2</h1>
+        <p id="p2">Second sentence.</p>
+      </level1>
+    </bodymatter>
+  </book>
+</dtbook>`,
+  'book/part1.smil': `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/2001/SMIL20/">
+  <head>
+    <meta name="dtb:uid" content="book-uid"/>
+    <meta name="dtb:totalElapsedTime" content="0:00:00"/>
+  </head>
+  <body>
+    <seq id="seq1">
+      <par id="par1">
+        <text src="book.xml#h1"/>
+        <audio src="audio/part1.mp3" clipBegin="0:00:00.000" clipEnd="0:00:02.000"/>
+      </par>
+      <par id="par2">
+        <text src="book.xml#p1"/>
+        <audio src="audio/part1.mp3" clipBegin="0:00:02.000" clipEnd="0:00:05.000"/>
+      </par>
+    </seq>
+  </body>
+</smil>`,
+  'book/part2.smil': `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/2001/SMIL20/">
+  <head>
+    <meta name="dtb:uid" content="book-uid"/>
+    <meta name="dtb:totalElapsedTime" content="0:00:05.000"/>
+  </head>
+  <body>
+    <seq id="seq2">
+      <par id="par3">
+        <text src="book.xml#h2"/>
+        <audio src="audio/part2.mp3" clipBegin="0:00:00.000" clipEnd="0:00:01.500"/>
+      </par>
+      <par id="par4">
+        <text src="book.xml#p2"/>
+        <audio src="audio/part2.mp3" clipBegin="0:00:01.500" clipEnd="0:00:04.000"/>
+      </par>
+    </seq>
+  </body>
+</smil>`,
+  'book/audio/part1.mp3': '',
+  'book/audio/part2.mp3': '',
+};
+
+/**
+ * Build a minimal zip archive (deflated entries, no CRC) for reader tests
+ */
+function buildZip(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = Buffer.from(encoder.encode(path));
+    const data = deflateRawSync(Buffer.from(encoder.encode(content)));
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, ...central, eocd]));
+}
+
+describe('resolveHref', () => {
+  it('resolves hrefs relative to the referencing file', () => {
+    expect(resolveHref('book/book.opf', 'part1.smil')).toBe('book/part1.smil');
+    expect(resolveHref('book/book.opf', '../audio/a.mp3#x')).toBe(
+      'audio/a.mp3',
+    );
+    expect(resolveHref('book.opf', './part1.smil')).toBe('part1.smil');
+  });
+});
+
+describe('loadDaisyBook', () => {
+  it('loads and links OPF, NCX, SMIL and DTBook from memory', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+
+    expect(book.opf.metadata.title).toBe('Test Book');
+    expect(book.ncx?.navPoints).toHaveLength(3);
+    expect(book.dtb?.metadata.title).toBe('Test Book');
+    expect(book.spine.map((entry) => entry.path)).toEqual([
+      'book/part1.smil',
+      'book/part2.smil',
+    ]);
+    expect(Object.keys(book.smil)).toEqual(['part1.smil', 'part2.smil']);
+    expect(book.navLinks).toHaveLength(3);
+    expect(book.navLinks[2]?.smilHref).toBe('part2.smil');
+    expect(book.navLinks[2]?.fragment).toBe('par3');
+    expect(book.navLinks[2]?.clip?.duration).toBe(1500);
+  });
+
+  it('loads a book from a zip archive', async () => {
+    const reader = createZipReader(buildZip(bookFiles));
+
+    expect(await reader.exists('book/book.ncx')).toBe(true);
+    expect(await reader.exists('book/missing.ncx')).toBe(false);
+
+    const book = await loadDaisyBook(reader, 'book/book.opf');
+    expect(book.spine).toHaveLength(2);
+    expect(book.navLinks[0]?.clip?.src).toBe('audio/part1.mp3');
+  });
+
+  it('rejects spine itemrefs without a manifest item', async () => {
+    const files = {
+      ...bookFiles,
+      'book/book.opf': bookFiles['book/book.opf']!.replace(
+        'idref="smil2"',
+        'idref="missing"',
+      ),
+    };
+
+    await expect(
+      loadDaisyBook(createMemoryReader(files), 'book/book.opf'),
+    ).rejects.toThrow('spine itemref "missing"');
+    await expect(
+      loadDaisyBook(createMemoryReader(files), 'book/book.opf'),
+    ).rejects.toThrow(
+      expect.objectContaining({
+        code: 'unresolved-reference',
+        fileName: 'book/book.opf',
+      }),
+    );
+  });
+});
+
+describe('navMap tree', () => {
+  const treeNcx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head><meta name="dtb:uid" content="book-uid"/></head>
+  <docTitle><text>Tree</text></docTitle>
+  <navMap>
+    <navPoint id="c1" playOrder="1">
+      <navLabel><text>Chapter 1</text></navLabel>
+      <content src="a.smil#c1"/>
+      <navPoint id="s11" playOrder="2">
+        <navLabel><text>Section 1.1</text></navLabel>
+        <content src="a.smil#s11"/>
+        <navPoint id="s111" playOrder="3">
+          <navLabel><text>Section 1.1.1</text></navLabel>
+          <content src="a.smil#s111"/>
+        </navPoint>
+      </navPoint>
+      <navPoint id="s12" playOrder="4">
+        <navLabel><text>Section 1.2</text></navLabel>
+        <content src="a.smil#s12"/>
+      </navPoint>
+    </navPoint>
+    <navPoint id="c2" playOrder="5">
+      <navLabel><text>Chapter 2</text></navLabel>
+      <content src="b.smil#c2"/>
+    </navPoint>
+  </navMap>
+</ncx>`;
+
+  it('builds a tree alongside the flat list', () => {
+    const ncx = parseNcx(treeNcx);
+
+    expect(ncx.navPoints.map((point) => point.id)).toEqual([
+      'c1',
+      's11',
+      's111',
+      's12',
+      'c2',
+    ]);
+    expect(ncx.navPoints[2]?.level).toBe(3);
+    expect(ncx.navPoints[2]?.parentId).toBe('s11');
+    expect(ncx.navTree).toHaveLength(2);
+    expect(ncx.navTree[0]?.children.map((node) => node.id)).toEqual([
+      's11',
+      's12',
+    ]);
+    expect(ncx.navTree[0]?.children[0]?.children[0]?.parentId).toBe('s11');
+  });
+
+  it('finds ancestors, siblings and enclosing sections', () => {
+    const ncx = parseNcx(treeNcx);
+
+    expect(getNavPointAncestors(ncx, 's111').map((point) => point.id)).toEqual([
+      'c1',
+      's11',
+    ]);
+    expect(getNextSiblingNavPoint(ncx, 's11')?.id).toBe('s12');
+    expect(getNextSiblingNavPoint(ncx, 's12')).toBeUndefined();
+    expect(getPreviousSiblingNavPoint(ncx, 'c2')?.id).toBe('c1');
+    expect(getPreviousSiblingNavPoint(ncx, 'c1')).toBeUndefined();
+    expect(getEnclosingNavPoint(ncx, 's111', 1)?.id).toBe('c1');
+    expect(getEnclosingNavPoint(ncx, 's111', 3)?.id).toBe('s111');
+    expect(getEnclosingNavPoint(ncx, 'c2', 2)).toBeUndefined();
+  });
+});
+
+describe('NCX pageList and navList', () => {
+  it('parses page targets and nav lists', () => {
+    const ncx = parseNcx(bookFiles['book/book.ncx']!);
+
+    expect(ncx.pageTargets).toHaveLength(2);
+    expect(ncx.pageTargets[0]).toMatchObject({
+      id: 'page-i',
+      type: 'front',
+      label: 'i',
+      src: 'part1.smil#par1',
+      playOrder: 1,
+    });
+    expect(ncx.pageTargets[1]?.value).toBe('1');
+    expect(ncx.pageTargets[1]?.class).toBe('pagenum');
+    expect(ncx.navLists).toHaveLength(1);
+    expect(ncx.navLists[0]?.class).toBe('note');
+    expect(ncx.navLists[0]?.label).toBe('Notes');
+    expect(ncx.navLists[0]?.navTargets[0]).toMatchObject({
+      id: 'note-1',
+      label: 'Note 1',
+      src: 'part1.smil#par2',
+      playOrder: 2,
+      class: 'note',
+    });
+    expect(findPageTarget(ncx, 1)?.id).toBe('page-1');
+    expect(findPageTarget(ncx, 'i')?.id).toBe('page-i');
+    expect(findPageTarget(ncx, 99)).toBeUndefined();
+  });
+
+  it('jumps from a print page to its SMIL position', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+    const position = getPagePosition(book, 1);
+
+    expect(position?.smilHref).toBe('part2.smil');
+    expect(position?.fragment).toBe('par4');
+    expect(position?.clip?.clipBegin).toBe('0:00:01.500');
+    expect(getPagePosition(book, 42)).toBeUndefined();
+  });
+});
+
+describe('SMIL timeline', () => {
+  const timelineSmil = `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/2001/SMIL20/">
+  <head>
+    <meta name="dtb:uid" content="book-uid"/>
+    <customAttributes>
+      <customTest id="pagenum" defaultState="false" override="visible" bookStruct="PAGE_NUMBER"/>
+    </customAttributes>
+  </head>
+  <body>
+    <seq id="root" dur="0:00:06.000" fill="remove">
+      <par id="p1" class="h1">
+        <text src="book.xml#h1"/>
+        <audio src="a.mp3" clipBegin="0:00:00.000" clipEnd="0:00:02.000"/>
+      </par>
+      <seq id="note-seq" class="note" customTest="note" end="DTBuserEscape;">
+        <par id="p2">
+          <text src="book.xml#note1"/>
+        </par>
+      </seq>
+      <par id="p3" customTest="pagenum" class="pagenum">
+        <text src="book.xml#page1"/>
+        <img src="fig1.png"/>
+        <audio src="a.mp3" clipBegin="0:00:02.000" clipEnd="0:00:06.000"/>
+      </par>
+    </seq>
+  </body>
+</smil>`;
+
+  it('keeps seq nesting, media children and timing attributes', () => {
+    const smil = parseSmil(timelineSmil, 'a.smil');
+    const root = smil.timeline.children[0];
+
+    expect(root?.type).toBe('seq');
+    if (root?.type !== 'seq') return;
+
+    expect(root).toMatchObject({ id: 'root', fill: 'remove' });
+    expect(root.children.map((node) => node.type)).toEqual([
+      'par',
+      'seq',
+      'par',
+    ]);
+    expect(root.children[1]).toMatchObject({
+      class: 'note',
+      customTest: 'note',
+      end: 'DTBuserEscape;',
+    });
+
+    const pars = getSmilPars(smil.timeline);
+    expect(pars.map((par) => par.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(pars[1]?.children).toEqual([
+      { type: 'text', src: 'book.xml#note1' },
+    ]);
+    expect(pars[2]?.children.map((node) => node.type)).toEqual([
+      'text',
+      'img',
+      'audio',
+    ]);
+    expect(pars[2]?.children[2]).toMatchObject({ duration: 4000 });
+    expect(smil.customTests).toEqual([
+      {
+        id: 'pagenum',
+        defaultState: false,
+        override: 'visible',
+        bookStruct: 'PAGE_NUMBER',
+      },
+    ]);
+  });
+
+  it('keeps the flat elements map unchanged', () => {
+    const smil = parseSmil(timelineSmil, 'a.smil');
+
+    expect(Object.keys(smil.elements)).toEqual(['a.smil#p1', 'a.smil#p3']);
+  });
+});
+
+describe('buildSyncIndex', () => {
+  it('maps DTBook ids to audio clips and back', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+    const index = buildSyncIndex(book);
+
+    expect(index.points.map((point) => point.textId)).toEqual([
+      'h1',
+      'p1',
+      'h2',
+      'p2',
+    ]);
+
+    const [p1] = getSyncPointsForText(index, 'book.xml', 'p1');
+    expect(p1).toMatchObject({
+      smilHref: 'part1.smil',
+      parId: 'par2',
+      textHref: 'book.xml',
+      audioHref: 'audio/part1.mp3',
+      begin: 2000,
+      end: 5000,
+    });
+    expect(getSyncPointsForText(index, 'book.xml', 'missing')).toEqual([]);
+
+    expect(getSyncPointAtTime(index, 'audio/part1.mp3', 0)?.textId).toBe('h1');
+    expect(getSyncPointAtTime(index, 'audio/part1.mp3', 2000)?.textId).toBe(
+      'p1',
+    );
+    expect(getSyncPointAtTime(index, 'audio/part2.mp3', 3999)?.textId).toBe(
+      'p2',
+    );
+    expect(getSyncPointAtTime(index, 'audio/part2.mp3', 4000)).toBeUndefined();
+    expect(getSyncPointAtTime(index, 'audio/none.mp3', 0)).toBeUndefined();
+  });
+
+  it('keeps the same id in two DTBooks apart', async () => {
+    const files = {
+      ...bookFiles,
+      'book/part2.smil': bookFiles['book/part2.smil']!.replace(
+        'book.xml#h2',
+        'notes.xml#p1',
+      ),
+    };
+    const index = buildSyncIndex(
+      await loadDaisyBook(createMemoryReader(files), 'book/book.opf'),
+    );
+
+    expect(
+      getSyncPointsForText(index, 'book.xml', 'p1').map((point) => point.parId),
+    ).toEqual(['par2']);
+    expect(
+      getSyncPointsForText(index, 'notes.xml', 'p1').map(
+        (point) => point.parId,
+      ),
+    ).toEqual(['par3']);
+  });
+});
+
+describe('buildBookTimeline', () => {
+  it('seeks global positions and converts them back', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+    const timeline = buildBookTimeline(book);
+
+    expect(timeline.duration).toBe(9000);
+    expect(timeline.entries.map((entry) => entry.start)).toEqual([
+      0, 2000, 5000, 6500,
+    ]);
+
+    const position = seekBookTimeline(timeline, 7000);
+    expect(position?.entry).toMatchObject({
+      smilHref: 'part2.smil',
+      parId: 'par4',
+      audioHref: 'audio/part2.mp3',
+    });
+    expect(position?.audioOffset).toBe(2000);
+    expect(seekBookTimeline(timeline, 9000)).toBeUndefined();
+    expect(seekBookTimeline(timeline, -1)).toBeUndefined();
+
+    expect(getTimelineTime(timeline, 'part2.smil')).toBe(5000);
+    expect(getTimelineTime(timeline, 'part2.smil', 'par4', 2000)).toBe(7000);
+    expect(getTimelineTime(timeline, 'part1.smil', 'seq1')).toBe(0);
+    expect(getTimelineTime(timeline, 'part1.smil', 'missing')).toBeUndefined();
+  });
+
+  it('plays the children of a par at the same time', async () => {
+    const files = {
+      ...bookFiles,
+      'book/part1.smil': bookFiles['book/part1.smil']!.replace(
+        '<audio src="audio/part1.mp3" clipBegin="0:00:00.000" clipEnd="0:00:02.000"/>',
+        '<audio src="audio/part1.mp3" clipBegin="0:00:00.000" clipEnd="0:00:02.000"/><audio src="audio/music.mp3" clipBegin="0:00:00.000" clipEnd="0:00:01.000"/>',
+      ).replace(
+        '<audio src="audio/part1.mp3" clipBegin="0:00:02.000" clipEnd="0:00:05.000"/>',
+        '<seq><audio src="audio/part1.mp3" clipBegin="0:00:02.000" clipEnd="0:00:03.500"/><audio src="audio/part1.mp3" clipBegin="0:00:10.000" clipEnd="0:00:11.500"/></seq>',
+      ),
+    };
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+    const timeline = buildBookTimeline(book);
+
+    expect(timeline.duration).toBe(9000);
+    expect(timeline.entries.map((entry) => entry.start)).toEqual([
+      0, 0, 2000, 3500, 5000, 6500,
+    ]);
+    expect(getTimelineTime(timeline, 'part2.smil', 'par3')).toBe(5000);
+    expect(getTimelineTime(timeline, 'part1.smil', 'par2', 10500)).toBe(4000);
+    expect(getTimelineTime(timeline, 'part1.smil', 'par2', 2500)).toBe(2500);
+  });
+
+  it('exposes the elapsed time at every navPoint', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+
+    expect(getNavPointTimes(book, buildBookTimeline(book))).toEqual({
+      nav1: 0,
+      nav2: 2000,
+      nav3: 5000,
+    });
+  });
+});
+
+describe('validateDaisyBook', () => {
+  it('reports no diagnostics for a consistent fileset', async () => {
+    expect(
+      await validateDaisyBook(createMemoryReader(bookFiles), 'book/book.opf'),
+    ).toEqual([]);
+  });
+
+  it('reports broken references, uid mismatches and metadata problems', async () => {
+    const files: Record<string, string> = {
+      ...bookFiles,
+      'book/book.opf': bookFiles['book/book.opf']!.replace(
+        'idref="smil2"',
+        'idref="smil3"',
+      )
+        .replace('ANSI/NISO Z39.86-2005', 'ANSI/NISO Z39.86-2002')
+        .replace('<dc:Date>2024-01-01</dc:Date>', ''),
+      'book/book.ncx': bookFiles['book/book.ncx']!.replace(
+        'part2.smil#par3',
+        'part2.smil#par9',
+      ),
+      'book/part2.smil': bookFiles['book/part2.smil']!.replace(
+        'book.xml#p2',
+        'book.xml#p9',
+      ).replace('content="book-uid"', 'content="other-uid"'),
+    };
+    delete files['book/audio/part1.mp3'];
+
+    const diagnostics = await validateDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+    const summary = diagnostics.map(({ code, file, path }) => ({
+      code,
+      file,
+      path,
+    }));
+
+    expect(summary).toEqual(
+      expect.arrayContaining([
+        {
+          code: 'missing-resource',
+          file: 'book/book.opf',
+          path: '/package/manifest/item[6]',
+        },
+        {
+          code: 'unresolved-spine-itemref',
+          file: 'book/book.opf',
+          path: '/package/spine/itemref[2]',
+        },
+        {
+          code: 'unresolved-reference',
+          file: 'book/book.ncx',
+          path: '/ncx/navMap/navPoint[2]/content',
+        },
+        {
+          code: 'unresolved-reference',
+          file: 'book/part2.smil',
+          path: '/smil/body/seq/par[2]/text',
+        },
+        {
+          code: 'uid-mismatch',
+          file: 'book/part2.smil',
+          path: '/smil/head',
+        },
+        {
+          code: 'invalid-format',
+          file: 'book/book.opf',
+          path: '/package/metadata',
+        },
+        {
+          code: 'missing-metadata',
+          file: 'book/book.opf',
+          path: '/package/metadata',
+        },
+      ]),
+    );
+    expect(summary).toHaveLength(7);
+    expect(diagnostics.every((diagnostic) => diagnostic.severity)).toBe(true);
+  });
+
+  it('reports problems that only degrade the book as warnings', async () => {
+    const files = {
+      ...bookFiles,
+      'book/book.opf': bookFiles['book/book.opf']!.replace(
+        'ANSI/NISO Z39.86-2005',
+        'ANSI/NISO Z39.86-2002',
+      ),
+      'book/book.ncx': bookFiles['book/book.ncx']!.replace(
+        'part2.smil#par3',
+        'audio/part1.mp3',
+      ).replace('part1.smil#par1', 'part1.smil#par9'),
+    };
+
+    const diagnostics = await validateDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+
+    expect(
+      diagnostics.map(({ severity, code, file }) => ({ severity, code, file })),
+    ).toEqual([
+      {
+        severity: 'error',
+        code: 'unresolved-reference',
+        file: 'book/book.ncx',
+      },
+      {
+        severity: 'warning',
+        code: 'unresolved-reference',
+        file: 'book/book.ncx',
+      },
+      {
+        severity: 'warning',
+        code: 'invalid-format',
+        file: 'book/book.opf',
+      },
+    ]);
+  });
+
+  it('finds Dublin Core metadata by namespace in any case', async () => {
+    const files = {
+      ...bookFiles,
+      'book/book.opf': bookFiles['book/book.opf']!.replace(
+        /<dc-metadata xmlns:dc="[^"]+">[\s\S]*<\/dc-metadata>/,
+        `<dc-metadata xmlns="http://purl.org/dc/elements/1.1/">
+      <title>Test Book</title>
+      <identifier id="uid">book-uid</identifier>
+      <language>en</language>
+      <publisher>Test Publisher</publisher>
+      <date>2024-01-01</date>
+      <format>ANSI/NISO Z39.86-2005</format>
+    </dc-metadata>`,
+      ),
+    };
+
+    expect(
+      await validateDaisyBook(createMemoryReader(files), 'book/book.opf'),
+    ).toEqual([]);
+    expect(
+      await validateDaisyBook(
+        createMemoryReader({
+          ...bookFiles,
+          'book/book.opf': bookFiles['book/book.opf']!.replace(
+            /<(\/?)dc:([A-Z])/g,
+            (_, slash: string, letter: string) =>
+              `<${slash}dc:${letter.toLowerCase()}`,
+          ),
+        }),
+        'book/book.opf',
+      ),
+    ).toEqual([]);
+  });
+
+  it('reports diagnostics in file order whatever the I/O timing', async () => {
+    const files: Record<string, string> = { ...bookFiles };
+    delete files['book/audio/part1.mp3'];
+    delete files['book/audio/part2.mp3'];
+    const reader = createMemoryReader(files);
+    const slowReader: ResourceReader = {
+      ...reader,
+      async exists(path) {
+        // The first audio file answers last
+        if (path.endsWith('part1.mp3')) {
+          await new Promise((resolve) => {
+            setTimeout(resolve, 20);
+          });
+        }
+        return reader.exists(path);
+      },
+    };
+
+    const diagnostics = await validateDaisyBook(slowReader, 'book/book.opf');
+
+    expect(diagnostics.map(({ path }) => path)).toEqual([
+      '/package/manifest/item[6]',
+      '/package/manifest/item[7]',
+    ]);
+  });
+
+  it('reports unparseable files', async () => {
+    const diagnostics = await validateDaisyBook(
+      createMemoryReader({ 'book.opf': '<package' }),
+      'book.opf',
+    );
+
+    expect(diagnostics[0]?.code).toBe('parse-error');
+  });
+});
+
+describe('checkAudioIntegrity', () => {
+  it('reports no issues for consistent clips', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+
+    expect(checkAudioIntegrity(book)).toEqual({
+      issues: [],
+      totalDuration: 9000,
+    });
+  });
+
+  it('counts clips of pars without id and every clip of a par', async () => {
+    const files = {
+      ...bookFiles,
+      'book/part1.smil': bookFiles['book/part1.smil']!.replace(
+        '<par id="par1">',
+        '<par>',
+      ).replace(
+        '<audio src="audio/part1.mp3" clipBegin="0:00:02.000" clipEnd="0:00:05.000"/>',
+        '<audio src="audio/part1.mp3" clipBegin="0:00:02.000" clipEnd="0:00:03.500"/><audio src="audio/part1.mp3" clipBegin="0:00:03.500" clipEnd="0:00:05.000"/>',
+      ),
+    };
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+
+    expect(checkAudioIntegrity(book, { tolerance: 0 })).toEqual({
+      issues: [],
+      totalDuration: 9000,
+    });
+  });
+
+  it('reports empty, overlapping, distant and out-of-order clips', async () => {
+    const files = {
+      ...bookFiles,
+      'book/part1.smil': bookFiles['book/part1.smil']!.replace(
+        'clipBegin="0:00:02.000" clipEnd="0:00:05.000"',
+        'clipBegin="0:00:01.500" clipEnd="0:00:05.000"',
+      ),
+      'book/part2.smil': bookFiles['book/part2.smil']!.replace(
+        'clipBegin="0:00:00.000" clipEnd="0:00:01.500"',
+        'clipBegin="0:00:03.000" clipEnd="0:00:03.000"',
+      ).replace(
+        'clipBegin="0:00:01.500" clipEnd="0:00:04.000"',
+        'clipBegin="0:00:01.000" clipEnd="0:00:04.000"',
+      ),
+    };
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+    const report = checkAudioIntegrity(book, { tolerance: 0 });
+
+    expect(
+      report.issues.map(({ code, clipKey }) => ({ code, clipKey })),
+    ).toEqual([
+      { code: 'clip-overlap', clipKey: 'part1.smil#par2' },
+      { code: 'elapsed-time-mismatch', clipKey: undefined },
+      { code: 'empty-clip', clipKey: 'part2.smil#par3' },
+      { code: 'clip-out-of-order', clipKey: 'part2.smil#par4' },
+      { code: 'total-time-mismatch', clipKey: undefined },
+    ]);
+    expect(report.totalDuration).toBe(8500);
+
+    // The default tolerance absorbs the 500 ms difference
+    expect(
+      checkAudioIntegrity(book).issues.map(({ code }) => code),
+    ).not.toContain('total-time-mismatch');
+  });
+
+  it('reports large gaps between consecutive clips', async () => {
+    const files = {
+      ...bookFiles,
+      'book/part1.smil': bookFiles['book/part1.smil']!.replace(
+        'clipBegin="0:00:02.000" clipEnd="0:00:05.000"',
+        'clipBegin="0:00:04.000" clipEnd="0:00:07.000"',
+      ),
+    };
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+
+    expect(checkAudioIntegrity(book).issues.map(({ code }) => code)).toEqual([
+      'clip-gap',
+    ]);
+  });
+});
+
+describe('updateTotalTimesFromTrees', () => {
+  it('recomputes elapsed and total times after clips were edited', () => {
+    const opfTree = parseXml(bookFiles['book/book.opf']!);
+    const smilTrees = [
+      parseXml(bookFiles['book/part1.smil']!),
+      parseXml(bookFiles['book/part2.smil']!),
+    ];
+
+    updateAudioTimestampsById(smilTrees[0]!, 'par2', undefined, '0:00:06.000');
+    const result = updateTotalTimesFromTrees(opfTree, smilTrees);
+
+    expect(result).toEqual({ totalTime: 10000, totalElapsedTimes: [0, 6000] });
+
+    const elapsedMetas = (
+      selectAll('element[name=meta]', smilTrees[1]!) as Element[]
+    ).filter((meta) => meta.attributes.name === 'dtb:totalElapsedTime');
+    expect(elapsedMetas).toHaveLength(1);
+    expect(elapsedMetas[0]?.attributes.content).toBe('00:00:06.000');
+    expect(parseOpf(toXml(opfTree)).metadata['dtb:totalTime']).toBe(
+      '00:00:10.000',
+    );
+  });
+
+  it('adds dtb:totalElapsedTime when the SMIL head lacks it', () => {
+    const opfTree = parseXml(bookFiles['book/book.opf']!);
+    const smilTree = parseXml(
+      bookFiles['book/part1.smil']!.replace(
+        '<meta name="dtb:totalElapsedTime" content="0:00:00"/>',
+        '',
+      ),
+    );
+
+    updateTotalTimesFromTrees(opfTree, [smilTree]);
+
+    const meta = extractMetadata(
+      selectAll('element[name=meta]', smilTree) as Element[],
+    );
+    expect(meta['dtb:totalElapsedTime']).toBe('00:00:00.000');
+  });
+});
+
+// --- daisy202.ts tests ---
+const nccHtml = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml">
+  <head>
+    <title>Old Book</title>
+    <meta name="dc:title" content="Old Book"/>
+    <meta name="dc:creator" content="Old Author"/>
+    <meta name="dc:identifier" content="old-uid"/>
+    <meta name="dc:format" content="Daisy 2.02"/>
+    <meta name="ncc:totalTime" content="0:00:07"/>
+    <meta name="ncc:narrator" content="Reader"/>
+    <meta name="ncc:multimediaType" content="audioNcc"/>
+    <meta name="ncc:pageNormal" content="2"/>
+    <meta name="ncc:pageFront" content="1"/>
+    <meta name="ncc:maxPageNormal" content="2"/>
+  </head>
+  <body>
+    <h1 class="title" id="h1"><a href="s1.smil#t1">Old Book</a></h1>
+    <span class="page-front" id="pf1"><a href="s1.smil#t2">i</a></span>
+    <h2 id="h2"><a href="s1.smil#t2">Part One</a></h2>
+    <span class="page-normal" id="pn1"><a href="s2.smil#t3">1</a></span>
+    <span class="sidebar" id="sb1"><a href="s2.smil#t3">Sidebar</a></span>
+    <h1 id="h3"><a href="s2.smil#t3">Chapter Two</a></h1>
+  </body>
+</html>`;
+
+const smil10 = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE smil PUBLIC "-//W3C//DTD SMIL 1.0//EN" "http://www.w3.org/TR/REC-smil/SMIL10.dtd">
+<smil>
+  <head>
+    <meta name="dc:identifier" content="old-uid"/>
+    <meta name="ncc:totalElapsedTime" content="0:00:00"/>
+    <meta name="ncc:timeInThisSmil" content="0:00:05"/>
+  </head>
+  <body>
+    <seq dur="5.0s">
+      <par endsync="last" id="p1">
+        <text src="ncc.html#h1" id="t1"/>
+        <seq>
+          <audio src="a.mp3" clip-begin="npt=0.000s" clip-end="npt=1.500s" id="a1"/>
+          <audio src="a.mp3" clip-begin="npt=1.500s" clip-end="npt=3.000s" id="a2"/>
+        </seq>
+      </par>
+      <par endsync="last" id="p2">
+        <text src="ncc.html#h2" id="t2"/>
+        <audio src="a.mp3" clip-begin="npt=3.000s" clip-end="npt=5.000s" id="a3"/>
+      </par>
+    </seq>
+  </body>
+</smil>`;
+
+describe('parseNcc', () => {
+  it('maps headings, pages and metadata to the DAISY 3 shapes', () => {
+    const ncc = parseNcc(nccHtml);
+
+    expect(ncc.docTitle).toBe('Old Book');
+    expect(ncc.metadata).toMatchObject({
+      title: 'Old Book',
+      creator: 'Old Author',
+      identifier: 'old-uid',
+      'dtb:uid': 'old-uid',
+      'dtb:totalTime': '0:00:07',
+      'dtb:narrator': 'Reader',
+      'dtb:multimediaType': 'audioNCX',
+      'dtb:totalPageCount': '3',
+      'dtb:maxPageNumber': '2',
+    });
+    expect(
+      ncc.navPoints.map(({ id, level, label, src, playOrder, parentId }) => ({
+        id,
+        level,
+        label,
+        src,
+        playOrder,
+        parentId,
+      })),
+    ).toEqual([
+      {
+        id: 'h1',
+        level: 1,
+        label: 'Old Book',
+        src: 's1.smil#t1',
+        playOrder: 1,
+        parentId: undefined,
+      },
+      {
+        id: 'h2',
+        level: 2,
+        label: 'Part One',
+        src: 's1.smil#t2',
+        playOrder: 3,
+        parentId: 'h1',
+      },
+      {
+        id: 'h3',
+        level: 1,
+        label: 'Chapter Two',
+        src: 's2.smil#t3',
+        playOrder: 6,
+        parentId: undefined,
+      },
+    ]);
+    expect(ncc.navTree[0]?.children[0]?.id).toBe('h2');
+    expect(
+      ncc.pageTargets.map(({ type, value, label }) => ({ type, value, label })),
+    ).toEqual([
+      { type: 'front', value: undefined, label: 'i' },
+      { type: 'normal', value: '1', label: '1' },
+    ]);
+    expect(ncc.navLists[0]?.class).toBe('sidebar');
+    expect(findPageTarget(ncc, 1)?.src).toBe('s2.smil#t3');
+  });
+});
+
+describe('parseDaisy202Smil', () => {
+  it('normalizes SMIL 1.0 clips to DAISY 3 AudioClip values', () => {
+    const smil = parseDaisy202Smil(smil10, 's1.smil');
+
+    expect(smil.metadata['dtb:uid']).toBe('old-uid');
+    expect(smil.metadata['dtb:totalElapsedTime']).toBe('0:00:00');
+    expect(smil.elements['s1.smil#p1']).toEqual({
+      src: 'a.mp3',
+      clipBegin: '00:00:00.000',
+      clipEnd: '00:00:03.000',
+      duration: 3000,
+    });
+    expect(smil.elements['s1.smil#t2']).toEqual(smil.elements['s1.smil#p2']);
+    expect(getSmilPars(smil.timeline)).toHaveLength(2);
+  });
+});
+
+describe('parseMasterSmil', () => {
+  it('lists the SMIL files in reading order', () => {
+    const master = parseMasterSmil(`<?xml version="1.0" encoding="utf-8"?>
+<smil>
+  <head><meta name="dc:title" content="Old Book"/></head>
+  <body>
+    <ref src="s1.smil" title="Old Book" id="r1"/>
+    <ref src="s2.smil" title="Chapter Two" id="r2"/>
+  </body>
+</smil>`);
+
+    expect(master.metadata.title).toBe('Old Book');
+    expect(master.refs.map((ref) => ref.src)).toEqual(['s1.smil', 's2.smil']);
+  });
+});
+
+// --- upgrade.ts tests ---
+describe('convertDaisy202ToDaisy3', () => {
+  const nccFullText = nccHtml.replace('audioNcc', 'audioFullText');
+  const contentHtml = `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+  <body>
+    <h1 id="c1">Old Book</h1>
+    <p id="c2">Some <b>bold</b> text<span class="page-normal" id="pg1">1</span></p>
+    <h2 id="c3">Part One</h2>
+    <ul id="c4"><li>Item</li></ul>
+    <marquee>Moving</marquee>
+  </body>
+</html>`;
+  const smilFullText = smil10
+    .replace('ncc.html#h1', 'content.html#c1')
+    .replace('ncc.html#h2', 'content.html#c3');
+  const smil2 = `<?xml version="1.0" encoding="utf-8"?>
+<smil>
+  <head><meta name="dc:identifier" content="old-uid"/></head>
+  <body>
+    <seq>
+      <par endsync="last" id="p3">
+        <text src="ncc.html#h3" id="t3"/>
+        <audio src="b.mp3" clip-begin="npt=0.000s" clip-end="npt=2.000s" id="a4"/>
+      </par>
+    </seq>
+  </body>
+</smil>`;
+
+  it('converts an audio-only fileset to a loadable DAISY 3 book', async () => {
+    const fileset = await loadDaisy202Fileset(
+      createMemoryReader({
+        'ncc.html': nccHtml,
+        's1.smil': smil10,
+        's2.smil': smil2,
+      }),
+      'ncc.html',
+    );
+    const { files, warnings } = convertDaisy202ToDaisy3(fileset);
+
+    expect(Object.keys(files).sort()).toEqual([
+      'book.ncx',
+      'book.opf',
+      's1.smil',
+      's2.smil',
+    ]);
+    expect(files['book.opf']).toContain('<!DOCTYPE package');
+
+    const opf = parseOpf(files['book.opf']!);
+    expect(opf.metadata).toMatchObject({
+      title: 'Old Book',
+      creator: 'Old Author',
+      identifier: 'old-uid',
+      format: 'ANSI/NISO Z39.86-2005',
+      'dtb:multimediaType': 'audioNCX',
+      'dtb:multimediaContent': 'audio',
+      'dtb:totalTime': '00:00:07.000',
+    });
+    expect(opf.manifest.map((item) => item.mediaType)).toContain('audio/mpeg');
+    expect(opf.spine).toHaveLength(2);
+
+    const smil = parseSmil(files['s2.smil']!, 's2.smil');
+    expect(smil.metadata['dtb:totalElapsedTime']).toBe('00:00:05.000');
+    expect(smil.elements['s2.smil#p3']?.clipEnd).toBe('00:00:02.000');
+
+    const ncx = parseNcx(files['book.ncx']!);
+    expect(ncx.navPoints.map(({ src, level }) => ({ src, level }))).toEqual([
+      { src: 's1.smil#p1', level: 1 },
+      { src: 's1.smil#p2', level: 2 },
+      { src: 's2.smil#p3', level: 1 },
+    ]);
+    expect(ncx.metadata['dtb:totalPageCount']).toBe('2');
+    expect(ncx.pageTargets[1]?.src).toBe('s2.smil#p3');
+    expect(ncx.navLists[0]?.class).toBe('sidebar');
+    expect(warnings).toEqual([
+      'NCC has no dc:publisher; the OPF has no dc:Publisher',
+      'NCC has no dc:date; the OPF has no dc:Date',
+      'NCC has no dc:language; the OPF has no dc:Language',
+    ]);
+
+    const book = await loadDaisyBook(createMemoryReader(files), 'book.opf');
+    expect(book.navLinks.map((link) => link.clip?.src)).toEqual([
+      'a.mp3',
+      'a.mp3',
+      'b.mp3',
+    ]);
+  });
+
+  it('builds a DTBook from the XHTML content and reports unmapped content', async () => {
+    const fileset = await loadDaisy202Fileset(
+      createMemoryReader({
+        'ncc.html': nccFullText.replace(
+          '<meta name="ncc:narrator"',
+          '<meta name="ncc:kByteSize" content="12"/><meta name="ncc:narrator"',
+        ),
+        's1.smil': smilFullText,
+        's2.smil': smil2,
+        'content.html': contentHtml,
+      }),
+      'ncc.html',
+    );
+    const { files, warnings } = convertDaisy202ToDaisy3(fileset);
+
+    const dtb = parseXml(files['book.xml']!);
+    const level1 = select('element[name=level1]', dtb) as Element;
+    expect(
+      select('element[name=doctitle] > text', dtb) as Text | undefined,
+    ).toMatchObject({ value: 'Old Book' });
+    expect(
+      select('element[name=h1]', level1) as Element | undefined,
+    ).toMatchObject({ attributes: { id: 'c1' } });
+    expect(select('element[name=strong]', level1)).toBeTruthy();
+    expect(
+      select('element[name=pagenum]', level1) as Element | undefined,
+    ).toMatchObject({ attributes: { id: 'pg1', page: 'normal' } });
+    expect(
+      select('element[name=level2] > element[name=list]', level1) as
+        | Element
+        | undefined,
+    ).toMatchObject({ attributes: { type: 'ul' } });
+
+    const smil = parseXml(files['s1.smil']!);
+    expect(
+      (selectAll('element[name=text]', smil) as Element[]).map(
+        (text) => text.attributes.src,
+      ),
+    ).toEqual(['book.xml#c1', 'book.xml#c3']);
+    expect(parseOpf(files['book.opf']!).metadata['dtb:multimediaContent']).toBe(
+      'audio,text',
+    );
+    expect(warnings).toEqual([
+      'Unmapped XHTML element <marquee> in content.html was unwrapped',
+      'NCC has no dc:publisher; the OPF has no dc:Publisher',
+      'NCC has no dc:date; the OPF has no dc:Date',
+      'NCC has no dc:language; the OPF has no dc:Language',
+      'Metadata "ncc:kByteSize" has no DAISY 3 equivalent',
+    ]);
+  });
+
+  it('lists images and stylesheets and warns about missing metadata', async () => {
+    const fileset = await loadDaisy202Fileset(
+      createMemoryReader({
+        'ncc.html': nccFullText.replace(
+          '<meta name="dc:creator" content="Old Author"/>',
+          '',
+        ),
+        's1.smil': smilFullText,
+        's2.smil': smil2,
+        'content.html': contentHtml
+          .replace(
+            '<body>',
+            '<head><link rel="stylesheet" type="text/css" href="css/book.css"/></head>\n  <body>',
+          )
+          .replace(
+            '</ul>',
+            '</ul><p><img src="images/cover.png" alt="Cover"/></p>',
+          ),
+      }),
+      'ncc.html',
+    );
+    const { files, warnings } = convertDaisy202ToDaisy3(fileset);
+
+    const dtb = parseXml(files['book.xml']!);
+    expect(
+      (selectAll('element[name=meta]', dtb) as Element[]).map(
+        (meta) => meta.attributes.name,
+      ),
+    ).toEqual(['dtb:uid', 'dc:Title', 'dc:Identifier']);
+    expect(files['book.xml']).toContain(
+      '<?xml-stylesheet type="text/css" href="css/book.css"?>',
+    );
+    expect(
+      parseOpf(files['book.opf']!).manifest.map(({ id, href, mediaType }) => ({
+        id,
+        href,
+        mediaType,
+      })),
+    ).toEqual(
+      expect.arrayContaining([
+        { id: 'image-1', href: 'images/cover.png', mediaType: 'image/png' },
+        { id: 'css-1', href: 'css/book.css', mediaType: 'text/css' },
+      ]),
+    );
+    expect(warnings).toContain(
+      'NCC has no dc:creator; the DTBook has no dc:Creator',
+    );
+  });
+
+  it('requires an identifier for the OPF unique-identifier', async () => {
+    const fileset = await loadDaisy202Fileset(
+      createMemoryReader({
+        'ncc.html': nccHtml.replace(
+          '<meta name="dc:identifier" content="old-uid"/>',
+          '',
+        ),
+        's1.smil': smil10,
+        's2.smil': smil2,
+      }),
+      'ncc.html',
+    );
+
+    expect(() => convertDaisy202ToDaisy3(fileset)).toThrow(MissingElementError);
+  });
+});
+
+// --- epub.ts tests ---
+describe('exportEpub3', () => {
+  it('maps a text and audio book to EPUB 3 with Media Overlays', async () => {
+    const book = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+    const { files, warnings } = exportEpub3(book, {
+      modified: new Date('2024-01-02T03:04:05.678Z'),
+    });
+
+    expect(Object.keys(files)).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'EPUB/content-1.xhtml',
+      'EPUB/content-2.xhtml',
+      'EPUB/content-1.smil',
+      'EPUB/content-2.smil',
+      'EPUB/nav.xhtml',
+      'EPUB/package.opf',
+    ]);
+    expect(files.mimetype).toBe('application/epub+zip');
+
+    const packageTree = parseXml(files['EPUB/package.opf']!);
+    const metaValue = (property: string, refines?: string) =>
+      getTextContent(
+        (selectAll('element[name=meta]', packageTree) as Element[]).find(
+          ({ attributes }) =>
+            attributes.property === property && attributes.refines === refines,
+        )!,
+      );
+    expect(
+      getTextContent(
+        select('element[name="dc:identifier"]', packageTree) as Element,
+      ),
+    ).toBe('book-uid');
+    expect(metaValue('dcterms:modified')).toBe('2024-01-02T03:04:05Z');
+    expect(metaValue('media:duration', '#overlay-1')).toBe('00:00:05.000');
+    expect(metaValue('media:duration')).toBe('00:00:09.000');
+    expect(
+      (selectAll('element[name=item]', packageTree) as Element[]).map(
+        ({ attributes }) => [attributes.href, attributes['media-overlay']],
+      ),
+    ).toEqual([
+      ['nav.xhtml', undefined],
+      ['content-1.xhtml', 'overlay-1'],
+      ['content-1.smil', undefined],
+      ['content-2.xhtml', 'overlay-2'],
+      ['content-2.smil', undefined],
+      ['audio/part1.mp3', undefined],
+      ['audio/part2.mp3', undefined],
+    ]);
+
+    const overlay = parseXml(files['EPUB/content-1.smil']!);
+    expect(
+      (selectAll('element[name=par] > element', overlay) as Element[]).map(
+        ({ name, attributes }) => [name, attributes.src, attributes.clipBegin],
+      ),
+    ).toEqual([
+      ['text', 'content-1.xhtml#h1', undefined],
+      ['audio', 'audio/part1.mp3', '0:00:00.000'],
+      ['text', 'content-1.xhtml#p1', undefined],
+      ['audio', 'audio/part1.mp3', '0:00:02.000'],
+    ]);
+
+    const content = parseXml(files['EPUB/content-2.xhtml']!);
+    expect(
+      select('element[name=section] > element[name=h1]', content),
+    ).toMatchObject({ attributes: { id: 'h2' } });
+    const nav = parseXml(files['EPUB/nav.xhtml']!);
+    expect(
+      (selectAll('element[name=a]', nav) as Element[]).map(
+        ({ attributes }) => attributes.href,
+      ),
+    ).toContain('content-2.xhtml#h2');
+    expect(warnings).toEqual([]);
+  });
+
+  it('requires a DTBook', async () => {
+    const files = { ...bookFiles };
+    files['book/book.opf'] = files['book/book.opf']!.replace(
+      /<item[^>]*application\/x-dtbook\+xml"\/>/,
+      '',
+    );
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+
+    expect(() => exportEpub3(book)).toThrow('the book has no DTBook content');
+    expect(() => exportEpub3(book)).toThrow(MissingElementError);
+  });
+
+  it('keeps merged overlay ids unique and lists the documents without an NCX', async () => {
+    const files = {
+      ...bookFiles,
+      'book/book.opf': bookFiles['book/book.opf']!.replace(
+        /<item id="ncx"[^>]*\/>/,
+        '',
+      ),
+      'book/book.xml': bookFiles['book/book.xml']!.replace(
+        /<\/level1>\s*<level1 id="l2">/,
+        '',
+      ),
+      'book/part2.smil': bookFiles['book/part2.smil']!.replace(
+        'id="par3"',
+        'id="par1"',
+      ).replace('id="par4"', 'id="par2"'),
+    };
+    const book = await loadDaisyBook(
+      createMemoryReader(files),
+      'book/book.opf',
+    );
+    const { files: epub, warnings } = exportEpub3(book);
+
+    const overlay = parseXml(epub['EPUB/content-1.smil']!);
+    expect(
+      (selectAll('element[name=par]', overlay) as Element[]).map(
+        (par) => par.attributes.id,
+      ),
+    ).toEqual(['par1', 'par2', 'part2-par1', 'part2-par2']);
+
+    const toc = select('element[name=nav]', parseXml(epub['EPUB/nav.xhtml']!));
+    expect(
+      (selectAll('element[name=a]', toc) as Element[]).map((a) => [
+        a.attributes.href,
+        getTextContent(a),
+      ]),
+    ).toEqual([['content-1.xhtml#h1', 'Chapter 1']]);
+    expect(warnings).toContain(
+      'The book has no NCX; the table of contents lists the content documents',
+    );
+  });
+});
+
+describe('loadEpub3', () => {
+  it('loads an EPUB 3 with Media Overlays as a DaisyBook', async () => {
+    const daisy = await loadDaisyBook(
+      createMemoryReader(bookFiles),
+      'book/book.opf',
+    );
+    const { files } = exportEpub3(daisy);
+    const book = await loadEpub3(createMemoryReader(files));
+
+    expect(book.opfPath).toBe('EPUB/package.opf');
+    expect(book.opf.metadata).toMatchObject({
+      identifier: 'book-uid',
+      title: 'Test Book',
+      language: 'en',
+      'dtb:totalTime': '00:00:09.000',
+    });
+    expect(book.spine.map((entry) => entry.path)).toEqual([
+      'EPUB/content-1.smil',
+      'EPUB/content-2.smil',
+    ]);
+    expect(
+      book.navLinks.map(({ navPoint, smilHref, fragment, clip }) => [
+        navPoint.label,
+        navPoint.level,
+        smilHref,
+        fragment,
+        clip?.duration,
+      ]),
+    ).toEqual([
+      ['Chapter 1', 1, 'content-1.smil', 'par1', 2000],
+      ['Section 1.1', 2, 'content-1.smil', 'par2', 3000],
+      ['Chapter 2', 1, 'content-2.smil', 'par3', 1500],
+    ]);
+    expect(
+      book.ncx?.pageTargets.map(({ type, label }) => [type, label]),
+    ).toEqual([
+      ['front', 'i'],
+      ['normal', '1'],
+    ]);
+    expect(getPagePosition(book, 1)).toMatchObject({
+      smilHref: 'content-2.smil',
+      fragment: 'par4',
+    });
+    expect(
+      book.ncx?.navLists[0]?.navTargets.map(({ class: type, src }) => [
+        type,
+        src,
+      ]),
+    ).toEqual([
+      ['toc', 'nav.xhtml#toc'],
+      ['bodymatter', 'content-1.xhtml'],
+    ]);
+    expect(buildBookTimeline(book).duration).toBe(9000);
+  });
+
+  it('reports content documents without overlay and keys metadata like parseOpf', async () => {
+    const daisy = await loadDaisyBook(
+      createMemoryReader({
+        ...bookFiles,
+        'book/book.xml': bookFiles['book/book.xml']!.replace(
+          '<bodymatter>',
+          '<frontmatter><doctitle id="dt">Test Book</doctitle></frontmatter><bodymatter>',
+        ),
+      }),
+      'book/book.opf',
+    );
+    const { files } = exportEpub3(daisy);
+    const book = await loadEpub3(createMemoryReader(files));
+
+    expect(book.spine.map((entry) => entry.path)).toEqual([
+      'EPUB/content-2.smil',
+      'EPUB/content-3.smil',
+    ]);
+    expect(book.opf.warnings).toEqual([
+      expect.objectContaining({
+        code: 'missing-attribute',
+        fileName: 'EPUB/package.opf',
+        message: expect.stringContaining(
+          'EPUB spine item "content-1" has no media overlay',
+        ),
+      }),
+    ]);
+    expect(Object.keys(book.opf.dcMetadata).sort()).toEqual(
+      Object.keys(daisy.opf.dcMetadata)
+        .filter((key) => key !== 'format')
+        .sort(),
+    );
+  });
+});
+
+// --- html.ts tests ---
+describe('dtbookToHtml', () => {
+  const dtbook = `<?xml version="1.0" encoding="UTF-8"?>
+<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/" version="2005-3">
+  <head><meta name="dtb:uid" content="book-uid"/></head>
+  <book>
+    <frontmatter><doctitle id="t">A &amp; B</doctitle></frontmatter>
+    <bodymatter>
+      <level1 id="l1">
+        <h1 id="h1">Chapter</h1>
+        <pagenum id="pg1" page="normal">1</pagenum>
+        <p id="p1">Text<noteref idref="#n1" id="nr1">1</noteref></p>
+        <imggroup id="ig1">
+          <img id="img1" src="images/a.png" alt="A picture"/>
+          <caption id="c1">Caption</caption>
+          <prodnote id="pn1">Described</prodnote>
+        </imggroup>
+        <list type="ol"><li>One</li></list>
+        <table><tr><td colspan="2">Cell</td></tr></table>
+        <linegroup><line id="ln1">Verse</line></linegroup>
+        <sidebar id="sb1"><p>Aside</p></sidebar>
+        <level><hd id="hd1">Sub</hd></level>
+        <note id="n1"><p>Note text</p></note>
+      </level1>
+    </bodymatter>
+  </book>
+</dtbook>`;
+
+  it('maps DTBook structures to accessible HTML keeping ids', () => {
+    const html = dtbookToHtml(parseXml(dtbook));
+
+    expect(html).toContain(
+      '<div class="frontmatter"><h1 id="t" class="doctitle">A &amp; B</h1></div>',
+    );
+    expect(html).toContain('<section id="l1" aria-labelledby="h1">');
+    expect(html).toContain(
+      '<span id="pg1" class="pagenum" role="doc-pagebreak" aria-label="Page 1" data-page="normal">1</span>',
+    );
+    expect(html).toContain(
+      '<a id="nr1" class="noteref" href="#n1" role="doc-noteref">1</a>',
+    );
+    expect(html).toContain('<figure id="ig1" class="imggroup">');
+    expect(html).toContain(
+      '<img id="img1" src="images/a.png" alt="A picture">',
+    );
+    expect(html).toContain('<figcaption id="c1">Caption</figcaption>');
+    expect(html).toContain(
+      '<div id="pn1" class="prodnote" role="note">Described</div>',
+    );
+    expect(html).toContain('<ol><li>One</li></ol>');
+    expect(html).toContain('<td colspan="2">Cell</td>');
+    expect(html).toContain(
+      '<div class="linegroup"><div id="ln1" class="line">Verse</div></div>',
+    );
+    expect(html).toContain(
+      '<aside id="sb1" class="sidebar"><p>Aside</p></aside>',
+    );
+    expect(html).toContain('<h2 id="hd1">Sub</h2>');
+    expect(html).toContain(
+      '<aside id="n1" class="note" role="doc-footnote"><p>Note text</p></aside>',
+    );
+  });
+
+  it('lets callers choose image sources and note links', () => {
+    const tree = dtbookToHast(parseXml(dtbook), {
+      resolveImageSrc: (src) => `https://cdn.example/${src}`,
+      resolveNoteHref: (idref) => `notes.html#${idref}`,
+    });
+    const html = dtbookToHtml(parseXml(dtbook), {
+      resolveNoteHref: (idref) => `notes.html#${idref}`,
+    });
+
+    expect(JSON.stringify(tree)).toContain(
+      '"src":"https://cdn.example/images/a.png"',
+    );
+    expect(html).toContain('href="notes.html#n1"');
+  });
+});
+
+// --- text.ts tests ---
+describe('dtbookToMarkdown / dtbookToText', () => {
+  const dtbook = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/" version="2005-3">
+  <head><meta name="dtb:uid" content="book-uid"/></head>
+  <book>
+    <bodymatter>
+      <level1 id="l1">
+        <h1 id="h1">Chapter *One*</h1>
+        <pagenum id="pg1" page="normal">1</pagenum>
+        <p id="p1">Some <em>emphasis</em> and
+          <strong>strong</strong> text.<noteref idref="#n1">1</noteref></p>
+        <list type="ol" id="list1">
+          <li id="li1">First</li>
+          <li>Second
+            <list type="ul"><li>Nested</li></list>
+          </li>
+        </list>
+        <table id="t1">
+          <tr><th>Name</th><th>Value</th></tr>
+          <tr><td>a|b</td><td id="cell">2</td></tr>
+        </table>
+        <level2 id="l2">
+          <hd id="hd2">Section</hd>
+          <sidebar><p>Boxed</p></sidebar>
+        </level2>
+        <note id="n1"><p>The note.</p></note>
+      </level1>
+    </bodymatter>
+  </book>
+</dtbook>`);
+
+  it('exports Markdown', () => {
+    expect(dtbookToMarkdown(dtbook).text).toBe(
+      [
+        '# Chapter \\*One\\*',
+        '',
+        '[Page 1]',
+        '',
+        'Some *emphasis* and **strong** text.[^n1]',
+        '',
+        '1. First',
+        '2. Second',
+        '   - Nested',
+        '',
+        '| Name | Value |',
+        '| --- | --- |',
+        '| a\\|b | 2 |',
+        '',
+        '## Section',
+        '',
+        '> Boxed',
+        '',
+        '[^n1]: The note.',
+      ].join('\n'),
+    );
+  });
+
+  it('exports plain text with offsets back to element ids', () => {
+    const { text, offsets } = dtbookToText(dtbook, {
+      offsets: true,
+      pageMarker: (page) => `(page ${page})`,
+    });
+
+    expect(text).toBe(
+      [
+        'Chapter *One*',
+        '',
+        '(page 1)',
+        '',
+        'Some emphasis and strong text.[1]',
+        '',
+        '1. First',
+        '2. Second',
+        '   - Nested',
+        '',
+        'Name\tValue',
+        'a|b\t2',
+        '',
+        'Section',
+        '',
+        'Boxed',
+        '',
+        'The note.',
+      ].join('\n'),
+    );
+
+    const range = (id: string) => {
+      const offset = offsets!.find((entry) => entry.id === id)!;
+      return text.slice(offset.start, offset.end);
+    };
+    expect(range('h1')).toBe('Chapter *One*');
+    expect(range('p1')).toBe('Some emphasis and strong text.[1]');
+    expect(range('li1')).toBe('1. First');
+    expect(range('cell')).toBe('2');
+    expect(findElementIdAtOffset(offsets!, text.indexOf('emphasis'))).toBe(
+      'p1',
+    );
+    expect(findElementIdAtOffset(offsets!, text.indexOf('Boxed'))).toBe('l2');
+    expect(dtbookToText(dtbook).offsets).toBeUndefined();
+  });
+});
+
+describe('parseDtb outline', () => {
+  it('reads the frontmatter and nested levels with page ranges', () => {
+    const dtb = parseDtb(`<?xml version="1.0" encoding="UTF-8"?>
+<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/" version="2005-3">
+  <head><meta name="dc:Title" content="Outline"/></head>
+  <book>
+    <frontmatter>
+      <doctitle>The   Outline</doctitle>
+      <docauthor>First Author</docauthor>
+      <docauthor>Second Author</docauthor>
+      <level1 id="pref"><h1 id="pref-h">Preface</h1><pagenum>ii</pagenum></level1>
+    </frontmatter>
+    <bodymatter>
+      <level1 id="c1">
+        <pagenum id="pg1">1</pagenum>
+        <h1 id="c1-h">Chapter <em>One</em></h1>
+        <level2 id="s1"><h2>Section</h2><p>Text</p><pagenum>2</pagenum></level2>
+        <level id="s2"><hd id="s2-h">Generic</hd></level>
+      </level1>
+      <level1 id="c2"><h1>Chapter Two</h1><pagenum>3</pagenum></level1>
+    </bodymatter>
+  </book>
+</dtbook>`);
+
+    expect(dtb.docTitle).toBe('The Outline');
+    expect(dtb.docAuthors).toEqual(['First Author', 'Second Author']);
+    expect(dtb.sections).toEqual([
+      {
+        id: 'pref',
+        level: 1,
+        matter: 'frontmatter',
+        heading: 'Preface',
+        headingId: 'pref-h',
+        pageStart: undefined,
+        pageEnd: 'ii',
+        children: [],
+      },
+      {
+        id: 'c1',
+        level: 1,
+        matter: 'bodymatter',
+        heading: 'Chapter One',
+        headingId: 'c1-h',
+        pageStart: '1',
+        pageEnd: '2',
+        children: [
+          {
+            id: 's1',
+            level: 2,
+            matter: 'bodymatter',
+            heading: 'Section',
+            headingId: undefined,
+            pageStart: '1',
+            pageEnd: '2',
+            children: [],
+          },
+          {
+            id: 's2',
+            level: 2,
+            matter: 'bodymatter',
+            heading: 'Generic',
+            headingId: 's2-h',
+            pageStart: '2',
+            pageEnd: '2',
+            children: [],
+          },
+        ],
+      },
+      {
+        id: 'c2',
+        level: 1,
+        matter: 'bodymatter',
+        heading: 'Chapter Two',
+        headingId: undefined,
+        pageStart: '2',
+        pageEnd: '3',
+        children: [],
+      },
+    ]);
+  });
+});
+
+describe('generateNcx', () => {
+  const dtb = parseDtb(`<?xml version="1.0" encoding="UTF-8"?>
+<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/" version="2005-3">
+  <head><meta name="dc:Identifier" content="book-1"/></head>
+  <book>
+    <frontmatter>
+      <doctitle>Generated</doctitle>
+      <docauthor>An Author</docauthor>
+      <level1 id="pref">
+        <pagenum id="pg-i" page="front">i</pagenum>
+        <h1>Preface</h1>
+      </level1>
+    </frontmatter>
+    <bodymatter>
+      <level1 id="c1">
+        <pagenum id="pg-1">1</pagenum>
+        <h1 id="c1-h">Chapter One</h1>
+        <level2>
+          <h2>Untargeted</h2>
+          <level3 id="c1-1-1"><h3 id="c1-1-1-h">Deep</h3></level3>
+        </level2>
+        <p>Text <pagenum id="pg-2">2</pagenum> more text</p>
+        <pagenum>3</pagenum>
+      </level1>
+    </bodymatter>
+  </book>
+</dtbook>`);
+
+  it('builds navMap and pageList in document order', () => {
+    const ncx = parseNcx(toXml(generateNcx(dtb)));
+
+    expect(ncx.metadata).toMatchObject({
+      'dtb:uid': 'book-1',
+      'dtb:depth': '2',
+      'dtb:totalPageCount': '3',
+      'dtb:maxPageNumber': '2',
+    });
+    expect(ncx.docTitle).toBe('Generated');
+    expect(
+      ncx.navPoints.map(({ id, level, label, src, playOrder }) => ({
+        id,
+        level,
+        label,
+        src,
+        playOrder,
+      })),
+    ).toEqual([
+      {
+        id: 'nav-pref',
+        level: 1,
+        label: 'Preface',
+        src: 'book.xml#pref',
+        playOrder: 1,
+      },
+      {
+        id: 'nav-c1-h',
+        level: 1,
+        label: 'Chapter One',
+        src: 'book.xml#c1-h',
+        playOrder: 4,
+      },
+      {
+        id: 'nav-c1-1-1-h',
+        level: 2,
+        label: 'Deep',
+        src: 'book.xml#c1-1-1-h',
+        playOrder: 5,
+      },
+    ]);
+    expect(
+      ncx.pageTargets.map(({ id, type, value, label, playOrder }) => ({
+        id,
+        type,
+        value,
+        label,
+        playOrder,
+      })),
+    ).toEqual([
+      {
+        id: 'page-pg-i',
+        type: 'front',
+        value: undefined,
+        label: 'i',
+        playOrder: 2,
+      },
+      { id: 'page-pg-1', type: 'normal', value: '1', label: '1', playOrder: 3 },
+      { id: 'page-pg-2', type: 'normal', value: '2', label: '2', playOrder: 6 },
+    ]);
+  });
+
+  it('points to SMIL pars when a sync index is available', () => {
+    const tree = generateNcx(dtb, {
+      uid: 'override',
+      syncIndex: {
+        points: [],
+        byAudio: {},
+        byText: {
+          'book.xml#c1-h': [
+            { smilHref: 'c1.smil', parId: 'par-3' } as SyncPoint,
+          ],
+          'book.xml#pg-1': [
+            { smilHref: 'c1.smil', parId: 'par-2' } as SyncPoint,
+          ],
+        },
+      },
+    });
+    const ncx = parseNcx(toXml(tree));
+
+    expect(toXml(tree)).toContain(
+      '<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN"',
+    );
+    expect(ncx.metadata['dtb:uid']).toBe('override');
+    expect(ncx.navPoints[1]?.src).toBe('c1.smil#par-3');
+    expect(findPageTarget(ncx, 1)?.src).toBe('c1.smil#par-2');
+    expect(findPageTarget(ncx, 2)?.src).toBe('book.xml#pg-2');
+  });
+
+  it('gives a heading and a pagenum in the same par one playOrder', () => {
+    const ncx = parseNcx(
+      toXml(
+        generateNcx(dtb, {
+          syncIndex: {
+            points: [],
+            byAudio: {},
+            byText: {
+              'book.xml#pg-1': [
+                { smilHref: 'c1.smil', parId: 'par-2' } as SyncPoint,
+              ],
+              'book.xml#c1-h': [
+                { smilHref: 'c1.smil', parId: 'par-2' } as SyncPoint,
+              ],
+            },
+          },
+        }),
+      ),
+    );
+
+    expect(findPageTarget(ncx, 1)?.playOrder).toBe(3);
+    expect(ncx.navPoints[1]).toMatchObject({
+      src: 'c1.smil#par-2',
+      playOrder: 3,
+    });
+    expect(ncx.navPoints[2]?.playOrder).toBe(4);
+    expect(findPageTarget(ncx, 2)?.playOrder).toBe(5);
+  });
+});
+
+describe('createOpfTree / createNcxTree / createSmilTree', () => {
+  it('creates an OPF package', () => {
+    const xml = toXml(
+      createOpfTree({
+        dcMetadata: {
+          identifier: { value: 'book-1', attributes: { scheme: 'UUID' } },
+          title: 'Built Book',
+          Creator: [
+            { value: 'First Author', attributes: { role: 'aut' } },
+            'Second Author',
+          ],
+          language: 'en',
+        },
+        xMetadata: { 'dtb:multimediaType': 'audioNCX' },
+        manifest: [
+          { id: 'opf', href: 'book.opf' },
+          { id: 'ncx', href: 'book.ncx' },
+          { id: 's1', href: 's1.smil' },
+          { id: 'notes', href: 'notes.smil' },
+          { id: 'a1', href: 'audio/a1.mp3', mediaType: 'audio/mp3' },
+        ],
+        spine: ['s1', { idref: 'notes', linear: false }],
+      }),
+    );
+
+    expect(xml).toContain(
+      '<!DOCTYPE package PUBLIC "+//ISBN 0-9673008-1-9//DTD OEB 1.2 Package//EN"',
+    );
+    expect(xml).toContain('unique-identifier="uid"');
+    expect(xml).toContain(
+      '<dc:Identifier scheme="UUID" id="uid">book-1</dc:Identifier>',
+    );
+    expect(xml).toContain(
+      '<dc:Creator role="aut">First Author</dc:Creator><dc:Creator>Second Author</dc:Creator>',
+    );
+    expect(xml).toContain('<itemref idref="notes" linear="no"></itemref>');
+
+    const opf = parseOpf(xml);
+    expect(opf.metadata).toMatchObject({
+      identifier: 'book-1',
+      title: 'Built Book',
+      format: 'ANSI/NISO Z39.86-2005',
+      'dtb:multimediaType': 'audioNCX',
+    });
+    expect(opf.manifest.map((item) => item.mediaType)).toEqual([
+      'text/xml',
+      'application/x-dtbncx+xml',
+      'application/smil',
+      'application/smil',
+      'audio/mp3',
+    ]);
+    expect(opf.spine).toEqual([
+      { idref: 's1', linear: true },
+      { idref: 'notes', linear: false },
+    ]);
+    expect(() =>
+      createOpfTree({ dcMetadata: { title: 'x' }, manifest: [], spine: [] }),
+    ).toThrow('dc:Identifier is required');
+  });
+
+  it('creates an NCX with computed head metadata and playOrder', () => {
+    const xml = toXml(
+      createNcxTree({
+        uid: 'book-1',
+        title: 'Built Book',
+        authors: ['An Author'],
+        navPoints: [
+          {
+            id: 'n1',
+            label: 'Chapter 1',
+            src: 's1.smil#p1',
+            children: [{ id: 'n2', label: '1.1', src: 's1.smil#p3' }],
+          },
+        ],
+        pageTargets: [
+          { id: 'pg1', label: '1', value: '1', src: 's1.smil#p1' },
+          { id: 'pg2', label: 'x', type: 'special', src: 's1.smil#p4' },
+        ],
+        navLists: [
+          {
+            class: 'note',
+            label: 'Notes',
+            navTargets: [{ id: 't1', label: 'Note 1', src: 's1.smil#p2' }],
+          },
+        ],
+      }),
+    );
+
+    expect(xml).toContain('<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN"');
+    expect(xml).toContain(
+      '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">',
+    );
+
+    const ncx = parseNcx(xml);
+    expect(ncx.metadata).toMatchObject({
+      'dtb:uid': 'book-1',
+      'dtb:depth': '2',
+      'dtb:totalPageCount': '2',
+      'dtb:maxPageNumber': '1',
+    });
+    expect(ncx.navPoints.map((point) => point.playOrder)).toEqual([1, 2]);
+    expect(ncx.pageTargets.map((target) => target.playOrder)).toEqual([1, 3]);
+    expect(ncx.navLists[0]?.navTargets[0]?.playOrder).toBe(4);
+  });
+
+  it('creates a SMIL file that parses back to the same timeline', () => {
+    const timeline = [
+      {
+        type: 'par' as const,
+        id: 'p1',
+        children: [
+          { type: 'text' as const, src: 'book.xml#c1' },
+          {
+            type: 'audio' as const,
+            src: 'a.mp3',
+            clipBegin: '0:00:00.000',
+            clipEnd: '0:00:02.500',
+          },
+        ],
+      },
+    ];
+    const xml = toXml(
+      createSmilTree({
+        uid: 'book-1',
+        totalElapsedTime: 61000,
+        timeline,
+        customTests: [
+          {
+            id: 'pagenum',
+            defaultState: false,
+            override: 'visible',
+            bookStruct: 'PAGE_NUMBER',
+          },
+        ],
+      }),
+    );
+
+    expect(xml).toContain(
+      '<!DOCTYPE smil PUBLIC "-//NISO//DTD dtbsmil 2005-2//EN"',
+    );
+    expect(xml).toContain('<seq id="mseq"><par id="p1">');
+
+    const smil = parseSmil(xml, 's1.smil');
+    expect(smil.metadata).toMatchObject({
+      'dtb:uid': 'book-1',
+      'dtb:totalElapsedTime': '00:01:01.000',
+    });
+    expect(smil.customTests).toEqual([
+      {
+        id: 'pagenum',
+        defaultState: false,
+        override: 'visible',
+        bookStruct: 'PAGE_NUMBER',
+      },
+    ]);
+    expect(smil.elements['s1.smil#p1']).toMatchObject({
+      src: 'a.mp3',
+      duration: 2500,
+    });
+    expect(
+      toXml(
+        createSmilTree({ uid: 'book-1', timeline: smil.timeline.children }),
+      ),
+    ).toBe(
+      toXml(
+        createSmilTree({
+          uid: 'book-1',
+          timeline: [{ type: 'seq', id: 'mseq', children: timeline }],
+        }),
+      ),
+    );
+  });
+});
+
+describe('manifest and spine editing', () => {
+  const opfXml = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://openebook.org/namespaces/oeb-package/1.0/" unique-identifier="uid">
+  <manifest>
+    <item id="ncx" href="book.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="s1" href="s1.smil" media-type="application/smil"/>
+    <item id="s2" href="s2.smil" media-type="application/smil"/>
+  </manifest>
+  <spine>
+    <itemref idref="s1"/>
+    <itemref idref="s2"/>
+  </spine>
+</package>`;
+
+  it('adds and removes manifest items, fixing the spine', () => {
+    const tree = parseXml(opfXml);
+
+    addManifestItem(tree, { id: 'a1', href: 'audio/a1.mp3' });
+    addManifestItem(tree, {
+      id: 'img',
+      href: 'cover.png',
+      mediaType: 'image/x-png',
+    });
+    expect(() => addManifestItem(tree, { id: 's1', href: 'x.smil' })).toThrow(
+      'Manifest item "s1" already exists',
+    );
+
+    expect(removeManifestItem(tree, 's1')).toBe(true);
+    expect(removeManifestItem(tree, 'missing')).toBe(false);
+
+    const opf = parseOpf(toXml(tree));
+    expect(opf.manifest).toEqual([
+      { id: 'ncx', href: 'book.ncx', mediaType: 'application/x-dtbncx+xml' },
+      { id: 's2', href: 's2.smil', mediaType: 'application/smil' },
+      { id: 'a1', href: 'audio/a1.mp3', mediaType: 'audio/mpeg' },
+      { id: 'img', href: 'cover.png', mediaType: 'image/x-png' },
+    ]);
+    expect(opf.spine).toEqual([{ idref: 's2', linear: true }]);
+    expect(toXml(tree)).toContain(
+      '<spine>\n    <itemref idref="s2"></itemref>\n  </spine>',
+    );
+  });
+
+  it('inserts, moves, removes and toggles spine itemrefs', () => {
+    const tree = parseXml(opfXml);
+    addManifestItem(tree, { id: 'notes', href: 'notes.smil' });
+
+    addSpineItem(tree, 'notes', { index: 0, linear: false });
+    expect(() => addSpineItem(tree, 'missing')).toThrow(
+      'No manifest item "missing"',
+    );
+    expect(parseOpf(toXml(tree)).spine).toEqual([
+      { idref: 'notes', linear: false },
+      { idref: 's1', linear: true },
+      { idref: 's2', linear: true },
+    ]);
+
+    expect(moveSpineItem(tree, 'notes', 2)).toBe(true);
+    expect(setSpineItemLinear(tree, 'notes', true)).toBe(true);
+    expect(setSpineItemLinear(tree, 's1', false)).toBe(true);
+    expect(parseOpf(toXml(tree)).spine).toEqual([
+      { idref: 's1', linear: false },
+      { idref: 's2', linear: true },
+      { idref: 'notes', linear: true },
+    ]);
+
+    expect(removeSpineItem(tree, 's2')).toBe(true);
+    expect(removeSpineItem(tree, 's2')).toBe(false);
+    expect(parseOpf(toXml(tree)).spine.map((item) => item.idref)).toEqual([
+      's1',
+      'notes',
+    ]);
+  });
+  it('indents inserted and moved elements like their siblings', () => {
+    const tree = parseXml(opfXml, { preserveFormatting: true });
+
+    addManifestItem(tree, { id: 'a1', href: 'a1.mp3' });
+    addSpineItem(tree, 'a1', { index: 1 });
+    addSpineItem(tree, 'ncx');
+    moveSpineItem(tree, 's1', 3);
+
+    const xml = toXml(tree, { preserveFormatting: true });
+    expect(xml).toContain(
+      '    <item id="s2" href="s2.smil" media-type="application/smil"/>\n    <item id="a1" href="a1.mp3" media-type="audio/mpeg"/>\n  </manifest>',
+    );
+    expect(xml).toContain(
+      '<spine>\n    <itemref idref="a1"/>\n    <itemref idref="s2"/>\n    <itemref idref="ncx"/>\n    <itemref idref="s1"/>\n  </spine>',
+    );
+  });
+});
+
+describe('parseOpf Dublin Core entries', () => {
+  it('keeps repeated elements with their attributes', () => {
+    const opf = parseOpf(`<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://openebook.org/namespaces/oeb-package/1.0/" unique-identifier="uid">
+  <metadata>
+    <dc-metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:oebpackage="http://openebook.org/namespaces/oeb-package/1.0/">
+      <dc:Identifier id="isbn" scheme="ISBN">978-0-00-000000-0</dc:Identifier>
+      <dc:Identifier id="uid" scheme="DTB">book-1</dc:Identifier>
+      <dc:Title>Many Hands</dc:Title>
+      <dc:Creator role="aut" file-as="Doe, Jane">Jane Doe</dc:Creator>
+      <dc:Creator role="aut">John Roe</dc:Creator>
+      <dc:Creator role="ill">Ann Poe</dc:Creator>
+      <dc:Date event="publication">2001-02-03</dc:Date>
+      <dc:Rights>All rights reserved</dc:Rights>
+    </dc-metadata>
+  </metadata>
+  <manifest/>
+  <spine/>
+</package>`);
+
+    expect(opf.metadata.identifier).toBe('book-1');
+    expect(opf.uniqueIdentifier).toMatchObject({
+      value: 'book-1',
+      id: 'uid',
+      scheme: 'DTB',
+    });
+    expect(
+      opf.dcMetadata.creator?.map(({ value, role }) => [value, role]),
+    ).toEqual([
+      ['Jane Doe', 'aut'],
+      ['John Roe', 'aut'],
+      ['Ann Poe', 'ill'],
+    ]);
+    expect(opf.dcMetadata.creator?.[0]).toMatchObject({
+      fileAs: 'Doe, Jane',
+      attributes: { role: 'aut', 'file-as': 'Doe, Jane' },
+    });
+    expect(opf.dcMetadata.date?.[0]).toMatchObject({
+      value: '2001-02-03',
+      event: 'publication',
+    });
+    expect(opf.dcMetadata.rights?.[0]?.value).toBe('All rights reserved');
+  });
+});
+
+describe('namespace- and case-tolerant metadata', () => {
+  const opf20Xml = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>My DAISY Book</dc:title>
+    <dc:identifier id="bookid">isbn-123456</dc:identifier>
+    <creator xmlns="http://purl.org/dc/elements/1.1/">Jane Author</creator>
+    <purl:Publisher xmlns:purl="http://purl.org/dc/elements/1.1/">Publisher</purl:Publisher>
+    <dc:Format xmlns:dc="urn:not-dublin-core">ignored</dc:Format>
+    <meta name="dtb:totalTime" content="2:15:30"/>
+    <meta property="dtb:narrator">A Narrator</meta>
+  </metadata>
+  <manifest/>
+  <spine/>
+</package>`;
+
+  it('reads Dublin Core elements by namespace in any case', () => {
+    const opf = parseOpf(opf20Xml);
+
+    expect(opf.metadata).toMatchObject({
+      title: 'My DAISY Book',
+      identifier: 'isbn-123456',
+      creator: 'Jane Author',
+      publisher: 'Publisher',
+      'dtb:totalTime': '2:15:30',
+      'dtb:narrator': 'A Narrator',
+    });
+    expect(opf.metadata.format).toBeUndefined();
+  });
+
+  it('updates and creates metadata by namespace', () => {
+    const tree = parseXml(opf20Xml);
+
+    updateOpfMetadataFromTree(tree, {
+      'dc:Title': 'New Title',
+      'dc:creator': 'New Author',
+      'dc:Format': 'ANSI/NISO Z39.86-2005',
+      'dtb:narrator': 'New Narrator',
+      'dtb:totalTime': '3:00:00',
+    });
+
+    const xml = toXml(tree);
+    expect(xml).toContain('<dc:title>New Title</dc:title>');
+    expect(xml).toContain('<dc:Format>ANSI/NISO Z39.86-2005</dc:Format>');
+    expect(xml).toContain('<meta property="dtb:narrator">New Narrator</meta>');
+    expect(parseOpf(xml).metadata).toMatchObject({
+      title: 'New Title',
+      creator: 'New Author',
+      format: 'ANSI/NISO Z39.86-2005',
+      'dtb:narrator': 'New Narrator',
+      'dtb:totalTime': '3:00:00',
+    });
+  });
+
+  it('matches DTBook metadata names in any case', () => {
+    const xml = `<dtbook xmlns="http://www.daisy.org/z3986/2005/dtbook/"><head>
+  <meta name="dc:title" content="Lowercase"/>
+  <meta name="DC:IDENTIFIER" content="id-1"/>
+</head><book/></dtbook>`;
+    const tree = parseXml(xml);
+
+    expect(parseDtb(xml).metadata).toMatchObject({
+      title: 'Lowercase',
+      identifier: 'id-1',
+    });
+
+    updateDtbMetadataFromTree(tree, { 'dc:Title': 'Updated' });
+    expect(parseDtb(toXml(tree)).metadata.title).toBe('Updated');
+  });
+
+  it('reads and edits an OPF with prefixed package elements', async () => {
+    const prefixedXml = `<?xml version="1.0" encoding="UTF-8"?>
+<opf:package xmlns:opf="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/" unique-identifier="bookid" version="3.0">
+  <opf:metadata>
+    <dc:identifier id="bookid">isbn-123456</dc:identifier>
+    <dc:title>Prefixed</dc:title>
+    <Language xmlns="http://purl.org/dc/elements/1.1/">en</Language>
+  </opf:metadata>
+  <opf:manifest>
+    <opf:item id="c1" href="c1.xhtml" media-type="application/xhtml+xml" media-overlay="s1"/>
+    <opf:item id="s1" href="s1.smil" media-type="application/smil+xml"/>
+  </opf:manifest>
+  <opf:spine>
+    <opf:itemref idref="c1"/>
+  </opf:spine>
+</opf:package>`;
+    const opf = parseOpf(prefixedXml, { strict: true });
+
+    expect(opf.manifest.map((item) => item.id)).toEqual(['c1', 's1']);
+    expect(opf.spine).toEqual([{ idref: 'c1', linear: true }]);
+    expect(opf.metadata.title).toBe('Prefixed');
+
+    const tree = parseXml(prefixedXml);
+    addManifestItem(tree, { id: 'a1', href: 'a1.mp3' });
+    addSpineItem(tree, 's1', { index: 0 });
+    renameFileInOpfTree(tree, 'c1.xhtml', 'chapter1.xhtml');
+    const xml = toXml(tree);
+
+    expect(xml).toContain(
+      '<opf:item id="a1" href="a1.mp3" media-type="audio/mpeg"></opf:item>',
+    );
+    expect(parseOpf(xml).spine.map((item) => item.idref)).toEqual(['s1', 'c1']);
+    expect(parseOpf(xml).manifest[0]?.href).toBe('chapter1.xhtml');
+
+    const epub = parseEpubPackage(prefixedXml);
+    expect(epub.metadata).toMatchObject({
+      identifier: 'isbn-123456',
+      title: 'Prefixed',
+      language: 'en',
+    });
+    expect(epub.spine).toEqual([{ idref: 's1' }]);
+    expect(epub.dcMetadata.language?.[0]?.attributes).toEqual({});
+    expect(epub.dcMetadata.identifier?.[0]).toMatchObject({ id: 'bookid' });
+
+    expect(
+      await validateDaisyBook(
+        createMemoryReader({ 'book.opf': prefixedXml }),
+        'book.opf',
+      ),
+    ).not.toContainEqual(expect.objectContaining({ code: 'parse-error' }));
+  });
+});
+
+describe('toXml with preserveFormatting', () => {
+  const opfSource = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE package PUBLIC "+//ISBN 0-9673008-1-9//DTD OEB 1.2 Package//EN" 'http://openebook.org/dtds/oeb-1.2/oebpkg12.dtd'>
+<!-- produced by hand -->
+<package xmlns='http://openebook.org/namespaces/oeb-package/1.0/' unique-identifier="uid">
+  <metadata>
+    <dc-metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:Title>It&apos;s a  title</dc:Title>
+      <dc:Identifier id='uid'>x</dc:Identifier>
+    </dc-metadata>
+    <x-metadata>
+      <meta name="dtb:totalTime"   content="1:00:00" />
+    </x-metadata>
+  </metadata>
+  <manifest>
+    <item id="s1" href="s1.smil" media-type="application/smil"/>
+  </manifest>
+  <spine>
+    <itemref idref="s1"/>
+  </spine>
+</package>
+`;
+
+  it('reproduces an untouched document byte-for-byte', () => {
+    expect(
+      toXml(parseXml(opfSource, { preserveFormatting: true }), {
+        preserveFormatting: true,
+      }),
+    ).toBe(opfSource);
+    expect(toXml(parseXml(opfSource))).not.toBe(opfSource);
+    // Trees are only snapshotted when parsed with preserveFormatting
+    expect(toXml(parseXml(opfSource), { preserveFormatting: true })).not.toBe(
+      opfSource,
+    );
+  });
+
+  it('only rewrites edited nodes and indents inserted ones', () => {
+    const tree = parseXml(opfSource, { preserveFormatting: true });
+
+    updateOpfMetadataFromTree(tree, {
+      'dc:Title': 'New',
+      'dtb:narrator': 'A Narrator',
+    });
+    addManifestItem(tree, { id: 's2', href: 's2.smil' });
+    addSpineItem(tree, 's2', { index: 0 });
+
+    expect(toXml(tree, { preserveFormatting: true, indent: 2 })).toBe(
+      opfSource
+        .replace('It&apos;s a  title', 'New')
+        .replace(
+          '<meta name="dtb:totalTime"   content="1:00:00" />',
+          '<meta name="dtb:totalTime"   content="1:00:00" />\n      <meta name="dtb:narrator" content="A Narrator"/>',
+        )
+        .replace(
+          '<item id="s1" href="s1.smil" media-type="application/smil"/>',
+          '<item id="s1" href="s1.smil" media-type="application/smil"/>\n    <item id="s2" href="s2.smil" media-type="application/smil"/>',
+        )
+        .replace(
+          '<itemref idref="s1"/>',
+          '<itemref idref="s2"/>\n    <itemref idref="s1"/>',
+        ),
+    );
+    expect(toXml(tree, { preserveFormatting: true })).toContain(
+      '<spine>\n    <itemref idref="s2"/>\n    <itemref idref="s1"/>\n  </spine>',
+    );
+  });
+
+  it('indents inserted SMIL pars with their children', () => {
+    const source = `<smil xmlns="http://www.w3.org/2001/SMIL20/">
+\t<body>
+\t\t<seq id="mseq">
+\t\t\t<par id="p1"><text src="book.xml#a"/></par>
+\t\t</seq>
+\t</body>
+</smil>`;
+    const tree = parseXml(source, { preserveFormatting: true });
+    const seq = select('element[name=seq]', tree) as Element;
+
+    seq.children.push(
+      createElement('par', { id: 'p2' }, [
+        createElement('text', { src: 'book.xml#b' }),
+        createElement('audio', {
+          src: 'a.mp3',
+          clipBegin: '0s',
+          clipEnd: '1s',
+        }),
+      ]),
+    );
+
+    expect(toXml(tree, { preserveFormatting: true, indent: '\t' })).toBe(
+      source.replace(
+        '</par>\n\t\t</seq>',
+        '</par>\n\t\t\t<par id="p2">\n\t\t\t\t<text src="book.xml#b"/>\n\t\t\t\t<audio src="a.mp3" clipBegin="0s" clipEnd="1s"/>\n\t\t\t</par>\n\t\t</seq>',
+      ),
+    );
+  });
+});
+
+describe('strict and lenient parsing', () => {
+  it('parses the documents of the builders without warnings', () => {
+    const opf = toXml(
+      createOpfTree({
+        dcMetadata: { identifier: 'book-1', title: 'Book' },
+        manifest: [{ id: 's1', href: 's1.smil' }],
+        spine: ['s1'],
+      }),
+    );
+    const ncx = toXml(
+      createNcxTree({
+        uid: 'book-1',
+        title: 'Book',
+        navPoints: [{ id: 'n1', label: 'Chapter', src: 's1.smil#p1' }],
+        pageTargets: [{ id: 'pg1', label: '1', value: '1', src: 's1.smil#p1' }],
+      }),
+    );
+    const smil = toXml(
+      createSmilTree({
+        uid: 'book-1',
+        timeline: [
+          {
+            type: 'par',
+            id: 'p1',
+            children: [
+              {
+                type: 'audio',
+                src: 'a.mp3',
+                clipBegin: '0:00:00',
+                clipEnd: '0:00:01',
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(parseOpf(opf, { strict: true }).warnings).toEqual([]);
+    expect(parseNcx(ncx, { strict: true }).warnings).toEqual([]);
+    expect(parseSmil(smil, 's1.smil', { strict: true }).warnings).toEqual([]);
+  });
+
+  const brokenNcx = `<ncx>
+  <docTitle><text>Book</text></docTitle>
+  <navMap>
+    <navPoint id="n1"><navLabel><text>One</text></navLabel><content src="s1.smil#p1"/></navPoint>
+  </navMap>
+  <pageList>
+    <pageTarget id="pg1" type="body" playOrder="2"><navLabel><text>1</text></navLabel><content src="s1.smil#p2"/></pageTarget>
+  </pageList>
+</ncx>`;
+
+  it('recovers from NCX violations and lists the fallbacks', () => {
+    const ncx = parseNcx(brokenNcx, { fileName: 'book.ncx' });
+
+    expect(ncx.navPoints[0]).toMatchObject({ id: 'n1', playOrder: 0 });
+    expect(ncx.pageTargets[0]?.type).toBe('normal');
+    expect(ncx.warnings).toEqual([
+      {
+        code: 'missing-attribute',
+        message:
+          'Invalid NCX file: navPoint has no playOrder attribute (book.ncx, line 4, column 5)',
+        fallback: 'playOrder 0',
+        fileName: 'book.ncx',
+        line: 4,
+        column: 5,
+      },
+      expect.objectContaining({
+        code: 'invalid-value',
+        fallback: 'type "normal"',
+        line: 7,
+      }),
+    ]);
+  });
+
+  it('rejects NCX violations in strict mode', () => {
+    expect(() => parseNcx(brokenNcx, { strict: true })).toThrow(
+      MissingAttributeError,
+    );
+    expect(() => parseNcx(brokenNcx, { strict: true })).toThrow(
+      'navPoint has no playOrder attribute (line 4, column 5)',
+    );
+  });
+
+  it('lists OPF reference, duplicate id and value fallbacks', () => {
+    const opfXml = `<package unique-identifier="uid">
+  <metadata><dc-metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:Identifier id="uid">book-1</dc:Identifier>
+  </dc-metadata></metadata>
+  <manifest>
+    <item id="s1" href="s1.smil" media-type="application/smil"/>
+    <item id="s1" href="s2.smil" media-type="application/smil"/>
+  </manifest>
+  <spine><itemref idref="s1" linear="maybe"/><itemref idref="s3"/></spine>
+</package>`;
+    const opf = parseOpf(opfXml);
+
+    expect(opf.manifest).toHaveLength(2);
+    expect(opf.spine).toEqual([
+      { idref: 's1', linear: true },
+      { idref: 's3', linear: true },
+    ]);
+    expect(opf.warnings.map((warning) => warning.code)).toEqual([
+      'duplicate-id',
+      'invalid-value',
+      'unresolved-reference',
+    ]);
+    expect(() => parseOpf(opfXml, { strict: true })).toThrow(DuplicateIdError);
+  });
+
+  it('keeps allowed SMIL fallbacks as warnings in strict mode', () => {
+    const smilXml = `<smil><head><customAttributes><customTest id="note" override="visible"/></customAttributes></head>
+<body><seq>
+  <par id="p1" customTest="note"><audio src="a.mp3" clipBegin="0:00:01"/></par>
+  <par id="p2"><audio src="a.mp3" clipBegin="0:00:01" clipEnd="soon"/></par>
+</seq></body></smil>`;
+    const lenient = parseSmil(smilXml, 's1.smil');
+
+    expect(lenient.warnings.map((warning) => warning.fallback)).toEqual([
+      'no clip for the par',
+      'clipEnd 0',
+    ]);
+    expect(() => parseSmil(smilXml, 's1.smil', { strict: true })).toThrow(
+      InvalidValueError,
+    );
+    expect(
+      parseSmil(smilXml.replace('clipEnd="soon"', ''), 's1.smil', {
+        strict: true,
+      }).warnings,
+    ).toHaveLength(2);
+  });
+
+  it('requires the dtbook root and its dtb:uid and dc:Title', () => {
+    const dtb = parseDtb(
+      '<dtbook><head><meta name="dc:Title" content="Book"/></head><book/></dtbook>',
+    );
+
+    expect(dtb.warnings).toEqual([
+      expect.objectContaining({ code: 'missing-element', fallback: 'no uid' }),
+    ]);
+    expect(() => parseDtb('<html/>', { strict: true })).toThrow(
+      MissingRootError,
+    );
+  });
+
+  it('accepts a DTBook without optional Dublin Core metadata', () => {
+    const dtb = parseDtb(
+      '<dtbook><head><meta name="dtb:uid" content="id"/><meta name="dc:Title" content="Book"/></head><book/></dtbook>',
+      { strict: true },
+    );
+
+    expect(dtb.metadata.creator).toBe('');
+    expect(dtb.warnings).toEqual([]);
+  });
+
+  it('falls back to an empty navLabel', () => {
+    const { navPoints, warnings } = parseNcx(
+      '<ncx><head/><docTitle><text>Book</text></docTitle><navMap><navPoint id="n1" playOrder="1"><content src="a.smil#p1"/></navPoint></navMap></ncx>',
+    );
+    expect(navPoints[0]?.label).toBe('');
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ fallback: 'empty label' }),
+    );
+  });
+});